@@ -1,7 +1,8 @@
 import _ from 'lodash';
-import { RequestHandler, Router } from 'express';
+import { Request, RequestHandler, Router } from 'express';
 import Component from '../component';
 import ServiceContainer from '../services/service-container';
+import { Pagination } from '../services/statistic-service';
 
 /**
  * Base controller class.
@@ -62,6 +63,21 @@ export default abstract class Controller extends Component {
     }
   }
 
+  /**
+   * Gets the pagination from request query parameters `page` (starting at 1) and `limit`.
+   * 
+   * Invalid values are replaced by defaults, and the limit is capped by the configured maximum.
+   * 
+   * @param req Express request
+   * @returns Pagination
+   */
+  protected getPagination(req: Request): Pagination {
+    const { defaultLimit, maxLimit } = this.container.config.services.pagination;
+    const page = Math.max(Number.parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(Number.parseInt(req.query.limit as string) || defaultLimit, 1), maxLimit);
+    return { page, limit, skip: (page - 1) * limit };
+  }
+
   /**
    * Binds endpoint's handlers to access to `this`.
    * 
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { PlayerAttributes } from '../models/game-model';
+import { UserInstance } from '../models/user-model';
 import ServiceContainer from '../services/service-container';
 import Controller, { Link } from './controller';
 import { Error as MongooseError } from 'mongoose';
@@ -11,6 +12,8 @@ import { Error as MongooseError } from 'mongoose';
  */
 export default class GameController extends Controller {
 
+  private static readonly FILTER_KEYS = ['code', 'status', 'playlistId'];
+
   /**
    * Creates a new games controller.
    * 
@@ -20,7 +23,9 @@ export default class GameController extends Controller {
     super(container, '/games');
     this.registerEndpoint({ method: 'GET', uri: '/', handlers: this.listHandler });
     this.registerEndpoint({ method: 'GET', uri: '/:id', handlers: this.getHandler });
-    this.registerEndpoint({ method: 'POST', uri: '/', handlers: this.createHandler });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/rounds', handlers: this.roundsHandler });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/results', handlers: this.resultsHandler });
+    this.registerEndpoint({ method: 'POST', uri: '/', handlers: [this.container.auth.authenticateHandler, this.createHandler] });
     this.registerEndpoint({ method: 'DELETE', uri: '/:id', handlers: this.deleteHandler });
   }
 
@@ -29,13 +34,22 @@ export default class GameController extends Controller {
    * 
    * Path : `GET /games`
    * 
+   * Games can be filtered by `code`, `status` and `playlistId` query params. Other params are ignored, so hidden attributes
+   * (like the deck) can not be queried.
+   * 
    * @param req Express request
    * @param res Express response
    * @async
    */
   public async listHandler(req: Request, res: Response): Promise<Response> {
     try {
-      return res.status(200).json({ games: await this.db.games.find(req.query) });
+      const filter: Record<string, string> = {};
+      for (const key of GameController.FILTER_KEYS) {
+        if (typeof req.query[key] === 'string') {
+          filter[key] = req.query[key] as string;
+        }
+      }
+      return res.status(200).json({ games: await this.db.games.find(filter) });
     } catch (err) {
       this.logger.error(err);
       return res.status(500).json(this.container.errors.formatServerError());
@@ -67,9 +81,67 @@ export default class GameController extends Controller {
     }
   }
 
+  /**
+   * Gets the played rounds of a specific game.
+   * 
+   * Path : `GET /games/:id/rounds`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async roundsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const game = await this.db.games.findById(req.params.id);
+      if (game == null) {
+        return res.status(404).json(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Game not found'
+        }));
+      }
+      return res.status(200).json({ rounds: game.rounds });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).json(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets the results (final ranking) of a specific game.
+   * 
+   * Path : `GET /games/:id/results`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async resultsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const game = await this.db.games.findById(req.params.id);
+      if (game == null) {
+        return res.status(404).json(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Game not found'
+        }));
+      }
+      if (game.results == null) {
+        return res.status(404).json(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Game is not finished'
+        }));
+      }
+      return res.status(200).json({ results: game.results });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).json(this.container.errors.formatServerError());
+    }
+  }
+
   /**
    * Creates a new game.
    * 
+   * If the request is authenticated, the author is linked to the authenticated user.
+   * 
    * Path : `POST /games`
    * 
    * @param req Express request
@@ -78,9 +150,11 @@ export default class GameController extends Controller {
    */
   public async createHandler(req: Request, res: Response): Promise<Response> {
     try {
+      const authUser: UserInstance = res.locals.authUser;
       const author: PlayerAttributes = {
+        user: authUser?.id ?? null,
         author: true,
-        name: req.body.author
+        name: typeof req.body.author === 'string' ? this.container.chat.filter(req.body.author) : req.body.author
       }
       const game = await this.db.games.create({
         players: [author]
@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { LeaderboardPeriod, leaderboardPeriods } from '../services/rating-service';
+import ServiceContainer from '../services/service-container';
+import Controller from './controller';
+
+/**
+ * Leaderboards controller class.
+ * 
+ * Root path : `/leaderboards`
+ */
+export default class LeaderboardController extends Controller {
+
+  /**
+   * Creates a new leaderboards controller.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container, '/leaderboards');
+    this.registerEndpoint({ method: 'GET', uri: '/:period', handlers: this.listHandler });
+    this.registerEndpoint({ method: 'GET', uri: '/:period/users/:id', handlers: this.positionHandler });
+  }
+
+  /**
+   * Lists a leaderboard.
+   * 
+   * Path : `GET /leaderboards/:period`
+   * 
+   * The period is `all`, `weekly` or `monthly`. Query parameter `country` filters users by country, and query parameters `page` and `limit` are used for pagination.
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!leaderboardPeriods.includes(req.params.period as LeaderboardPeriod)) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Leaderboard not found'
+        }));
+      }
+      const pagination = this.getPagination(req);
+      const { items, total } = await this.container.ratings.getLeaderboard(req.params.period as LeaderboardPeriod, this.getCountry(req), pagination);
+      return res.status(200).send({ leaderboard: items, pagination: { page: pagination.page, limit: pagination.limit, total } });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets the position of a specific user in a leaderboard.
+   * 
+   * Path : `GET /leaderboards/:period/users/:id`
+   * 
+   * Query parameter `country` filters users by country.
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async positionHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!leaderboardPeriods.includes(req.params.period as LeaderboardPeriod)) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Leaderboard not found'
+        }));
+      }
+      const user = isValidObjectId(req.params.id) ? await this.db.users.findById(req.params.id) : null;
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const entry = await this.container.ratings.getPosition(user.id, req.params.period as LeaderboardPeriod, this.getCountry(req));
+      if (entry == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User is not ranked in this leaderboard'
+        }));
+      }
+      return res.status(200).send({ entry });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets the country filter from request query parameter `country`.
+   * 
+   * @param req Express request
+   * @returns Upper-cased country code, or `null` if there is no filter
+   */
+  private getCountry(req: Request): string {
+    return typeof req.query.country === 'string' && req.query.country.length > 0 ? req.query.country.toUpperCase() : null;
+  }
+}
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
 import { UserInstance } from '../models/user-model';
 import ServiceContainer from '../services/service-container';
 import Controller from './controller';
@@ -20,6 +21,9 @@ export default class UserController extends Controller {
     this.registerEndpoint({ method: 'GET', uri: '/info', handlers: [this.container.auth.authenticateHandler, this.container.auth.isAuthenticatedHandler, this.infoHandler] });
     this.registerEndpoint({ method: 'GET', uri: '/', handlers: this.listHandler });
     this.registerEndpoint({ method: 'GET', uri: '/:id', handlers: this.getHandler });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/games', handlers: this.gamesHandler });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/stats', handlers: this.statsHandler });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/achievements', handlers: this.achievementsHandler });
     this.registerEndpoint({ method: 'DELETE', uri: '/:id', handlers: this.deleteHandler });
   }
 
@@ -90,6 +94,89 @@ export default class UserController extends Controller {
     }
   }
 
+  /**
+   * Lists finished games of a specific user.
+   * 
+   * Path : `GET /users/:id/games`
+   * 
+   * Query parameters `page` and `limit` are used for pagination.
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async gamesHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = isValidObjectId(req.params.id) ? await this.db.users.findById(req.params.id) : null;
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const pagination = this.getPagination(req);
+      const { items, total } = await this.container.stats.getGames(user.id, pagination);
+      return res.status(200).send({ games: items, pagination: { page: pagination.page, limit: pagination.limit, total } });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets statistics of a specific user.
+   * 
+   * Path : `GET /users/:id/stats`
+   * 
+   * Query parameters `page` and `limit` are used for pagination of most found artists.
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async statsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = isValidObjectId(req.params.id) ? await this.db.users.findById(req.params.id) : null;
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const pagination = this.getPagination(req);
+      const { stats, total } = await this.container.stats.getStats(user.id, pagination);
+      return res.status(200).send({ stats, pagination: { page: pagination.page, limit: pagination.limit, total } });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists unlocked achievements of a specific user.
+   * 
+   * Path : `GET /users/:id/achievements`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async achievementsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = isValidObjectId(req.params.id) ? await this.db.users.findById(req.params.id) : null;
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      return res.status(200).send({ achievements: this.container.achievements.getAchievements(user) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
   /**
    * Deletes an user.
    * 
@@ -2,6 +2,7 @@ import { Document, Model, Mongoose, Schema } from 'mongoose';
 import ServiceContainer from '../services/service-container';
 import { GameTokenData } from '../services/token-service';
 import Attributes from './model';
+import { UserInstance } from './user-model';
 const mongooseToJson = require('@meanie/mongoose-to-json');
 
 /**
@@ -11,10 +12,22 @@ export interface GameAttributes extends Attributes {
   status?: Status;
   code?: string;
   players: PlayerAttributes[];
+  teams?: TeamAttributes[];
+  bans?: BanAttributes[];
   playlistId?: string;
   shuffle: boolean;
+  settings?: SettingsAttributes;
+  deck?: TrackAttributes[];
+  round?: number;
+  roundStartedAt?: Date;
+  phaseEndsAt?: Date;
+  forceStartAt?: Date;
+  pausedAt?: Date;
+  rounds?: RoundAttributes[];
+  results?: ResultsAttributes;
   starting: boolean;
   inProgress: boolean;
+  paused: boolean;
   finished: boolean;
 }
 
@@ -22,10 +35,171 @@ export interface GameAttributes extends Attributes {
  * Player attributes
  */
 export interface PlayerAttributes extends Partial<Document> {
-  // target: UserInstance;
+  user?: UserInstance['_id'];
   name: string;
+  fingerprint?: string;
   author?: boolean;
+  connectedAt?: Date;
+  ready?: boolean;
+  team?: string;
   score?: number;
+  roundPoints?: number;
+  streak?: number;
+  titleFoundAt?: Date;
+  artistFoundAt?: Date;
+  answer?: string;
+  choice?: number;
+  year?: number;
+  yearFoundAt?: Date;
+  pick?: string;
+  ownerFoundAt?: Date;
+  skipVote?: boolean;
+  hints?: number;
+  hintLevel?: number;
+}
+
+/**
+ * Team attributes.
+ */
+export interface TeamAttributes extends Partial<Document> {
+  name: string;
+  color: string;
+  score?: number;
+}
+
+/**
+ * Ban attributes.
+ */
+export interface BanAttributes {
+  name: string;
+  fingerprint: string;
+}
+
+/**
+ * Game settings attributes.
+ * 
+ * Durations are in seconds.
+ */
+export interface SettingsAttributes extends Partial<Document> {
+  rounds: number;
+  trackDuration: number;
+  pauseDuration: number;
+  guess: GuessType;
+  maxPlayers: number;
+  answerMode: AnswerMode;
+  teamMode: boolean;
+  previews: PreviewMode;
+}
+
+/**
+ * What players must guess.
+ * 
+ * In `year` mode, players guess the release year of the track (from its album release date) with a number, whatever the answer mode.
+ * In `owner` mode (social mode), the deck is built from the Spotify top tracks of the players, who guess whose top track is playing.
+ */
+export type GuessType = 'title' | 'artist' | 'both' | 'year' | 'owner';
+
+/**
+ * How players answer : by typing free text or by picking one of the round choices.
+ */
+export type AnswerMode = 'text' | 'choice';
+
+/**
+ * How tracks without a preview are handled when the deck is built.
+ * 
+ * In `required` mode, they are skipped, so every round can be played from its preview without Spotify Premium.
+ * In `optional` mode, they are kept with no preview URL, and clients must play them with the Spotify player.
+ */
+export type PreviewMode = 'required' | 'optional';
+
+/**
+ * Track attributes.
+ * 
+ * A track is an entry of the game deck, played during a round.
+ */
+export interface TrackAttributes extends Partial<Document> {
+  spotifyId?: string;
+  uri?: string;
+  name: string;
+  artists: string[];
+  album?: string;
+  imageUrl?: string;
+  releaseDate?: string;
+  previewUrl?: string;
+  previewOffset?: number;
+  choices?: ChoiceAttributes[];
+  answerIndex?: number;
+  owners?: string[];
+}
+
+/**
+ * Choice attributes.
+ * 
+ * A choice is an option shown to players in multiple-choice answer mode.
+ */
+export interface ChoiceAttributes {
+  name: string;
+  artists: string[];
+}
+
+/**
+ * Round attributes.
+ * 
+ * A round is recorded in the game history when it ends. Skipped rounds award no points.
+ */
+export interface RoundAttributes extends Partial<Document> {
+  index: number;
+  track: TrackAttributes;
+  startedAt: Date;
+  endedAt: Date;
+  skipped?: boolean;
+  answers: RoundAnswerAttributes[];
+}
+
+/**
+ * Round answer attributes.
+ * 
+ * Latencies are in milliseconds, and are `null` when the part has not been found.
+ */
+export interface RoundAnswerAttributes {
+  player: string;
+  name: string;
+  answer?: string;
+  choice?: number;
+  title: boolean;
+  artist: boolean;
+  titleLatency?: number;
+  artistLatency?: number;
+  year?: number;
+  yearFound?: boolean;
+  yearLatency?: number;
+  pick?: string;
+  ownerFound?: boolean;
+  ownerLatency?: number;
+  points: number;
+}
+
+/**
+ * Results attributes.
+ * 
+ * Results are the final ranking snapshot, saved when the game is finished.
+ */
+export interface ResultsAttributes {
+  finishedAt: Date;
+  players: {
+    rank: number;
+    player: string;
+    name: string;
+    score: number;
+    ratingDelta?: number;
+  }[];
+  teams?: {
+    rank: number;
+    team: string;
+    name: string;
+    color: string;
+    score: number;
+  }[];
 }
 
 /**
@@ -40,6 +214,7 @@ export enum Status {
  */
 export interface GameInstance extends GameAttributes, Document {
   generateToken(playerId: string): Promise<string>;
+  generateSpectatorToken(fingerprint: string): Promise<string>;
 }
 
 /**
@@ -72,17 +247,44 @@ function createGameSchema(container: ServiceContainer) {
     },
     players: {
       type: [{
-        type: createPlayerSchema()
+        type: createPlayerSchema(container)
       }],
       default: [],
       validate: [{
         validator: (players: PlayerAttributes[]) => players.length >= 1,
         message: 'A game must contains one player minimum'
       }, {
-        validator: (players: PlayerAttributes[]) => players.length <= 10,
-        message: 'A game must contains 10 players maximum'
+        validator: function(this: GameInstance, players: PlayerAttributes[]) {
+          return players.length <= this.settings.maxPlayers;
+        },
+        message: 'A game must not contains more players than the maximum players setting'
+      }, {
+        validator: (players: PlayerAttributes[]) => {
+          const users = players.filter(player => player.user != null).map(player => player.user.toString());
+          return new Set(users).size === users.length;
+        },
+        message: 'An account can not be used by many players of a game'
       }]
     },
+    teams: {
+      type: [{
+        type: createTeamSchema()
+      }],
+      default: [],
+      validate: {
+        validator: (teams: TeamAttributes[]) => teams.length <= container.config.services.games.maxTeams,
+        message: `A game must contains ${container.config.services.games.maxTeams} teams maximum`
+      }
+    },
+    bans: {
+      type: [{
+        _id: false,
+        name: Schema.Types.String,
+        fingerprint: Schema.Types.String
+      }],
+      default: [],
+      private: true
+    },
     playlistId: {
       type: Schema.Types.String,
       default: null
@@ -90,6 +292,48 @@ function createGameSchema(container: ServiceContainer) {
     shuffle: {
       type: Schema.Types.Boolean,
       default: true
+    },
+    settings: {
+      type: createSettingsSchema(container),
+      default: () => ({})
+    },
+    deck: {
+      type: [{
+        type: createTrackSchema()
+      }],
+      default: [],
+      private: true
+    },
+    round: {
+      type: Schema.Types.Number,
+      default: -1
+    },
+    roundStartedAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    phaseEndsAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    forceStartAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    pausedAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    rounds: {
+      type: [{
+        type: createRoundSchema()
+      }],
+      default: [],
+      private: true
+    },
+    results: {
+      type: createResultsSchema(),
+      default: null
     }
   }, {
     timestamps: true,
@@ -105,12 +349,21 @@ function createGameSchema(container: ServiceContainer) {
     return this.status === Status.TIMER_BETWEEN || this.status === Status.TIMER_CURRENT;
   });
 
+  schema.virtual('paused').get(function(this: GameInstance) {
+    return this.pausedAt != null;
+  });
+
   schema.virtual('finished').get(function(this: GameInstance) {
     return this.status === Status.FINISHED;
   });
 
   schema.method('generateToken', async function (this: GameInstance, playerId: string) {
-    return await container.tokens.encode<GameTokenData>({ code: this.code, playerId }, process.env.GAME_TOKEN_KEY);
+    const { fingerprint } = this.players.find(player => player.id === playerId);
+    return await container.tokens.encode<GameTokenData>({ code: this.code, playerId, fingerprint, role: 'player' }, process.env.GAME_TOKEN_KEY);
+  });
+
+  schema.method('generateSpectatorToken', async function (this: GameInstance, fingerprint: string) {
+    return await container.tokens.encode<GameTokenData>({ code: this.code, playerId: null, fingerprint, role: 'spectator' }, process.env.GAME_TOKEN_KEY);
   });
 
   schema.pre('save', async function(this: GameInstance, next) {
@@ -137,24 +390,384 @@ function createGameSchema(container: ServiceContainer) {
 /**
  * Creates the player subschema.
  * 
+ * @param container Services container
  * @returns Player subschema
  */
-function createPlayerSchema() {
+function createPlayerSchema(container: ServiceContainer) {
   const schema = new Schema({
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
     name: {
       type: Schema.Types.String,
       required: [true, 'Player name is required'],
       maxlength: [16, 'Player name is too long (16 characters maximum)']
     },
+    fingerprint: {
+      type: Schema.Types.String,
+      default: () => container.crypto.generateRandomString(16),
+      private: true
+    },
     author: {
       type: Schema.Types.Boolean,
       default: false
     },
+    connectedAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    ready: {
+      type: Schema.Types.Boolean,
+      default: false
+    },
+    team: {
+      type: Schema.Types.String,
+      default: null
+    },
     score: {
       type: Schema.Types.Number,
       default: 0
+    },
+    roundPoints: {
+      type: Schema.Types.Number,
+      default: 0
+    },
+    streak: {
+      type: Schema.Types.Number,
+      default: 0
+    },
+    titleFoundAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    artistFoundAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    answer: {
+      type: Schema.Types.String,
+      default: null,
+      private: true
+    },
+    choice: {
+      type: Schema.Types.Number,
+      default: null,
+      private: true
+    },
+    year: {
+      type: Schema.Types.Number,
+      default: null,
+      private: true
+    },
+    yearFoundAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    pick: {
+      type: Schema.Types.String,
+      default: null,
+      private: true
+    },
+    ownerFoundAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    skipVote: {
+      type: Schema.Types.Boolean,
+      default: false
+    },
+    hints: {
+      type: Schema.Types.Number,
+      default: 0
+    },
+    hintLevel: {
+      type: Schema.Types.Number,
+      default: 0
+    }
+  }, {
+    timestamps: false,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  });
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
+
+/**
+ * Creates the team subschema.
+ * 
+ * @returns Team subschema
+ */
+function createTeamSchema() {
+  const schema = new Schema({
+    name: {
+      type: Schema.Types.String,
+      required: [true, 'Team name is required'],
+      maxlength: [16, 'Team name is too long (16 characters maximum)']
+    },
+    color: {
+      type: Schema.Types.String,
+      required: [true, 'Team color is required'],
+      match: [/^#[0-9a-f]{6}$/i, 'Team color must be an hexadecimal color (like "#1e88e5")']
+    },
+    score: {
+      type: Schema.Types.Number,
+      default: 0
+    }
+  }, {
+    timestamps: false,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  });
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
+
+/**
+ * Creates the settings subschema.
+ * 
+ * @param container Services container
+ * @returns Settings subschema
+ */
+function createSettingsSchema(container: ServiceContainer) {
+  const { defaultSettings } = container.config.services.games;
+  const schema = new Schema({
+    rounds: {
+      type: Schema.Types.Number,
+      default: defaultSettings.rounds,
+      min: [1, 'A game must have one round minimum'],
+      max: [50, 'A game must have 50 rounds maximum']
+    },
+    trackDuration: {
+      type: Schema.Types.Number,
+      default: defaultSettings.trackDuration,
+      min: [5, 'Track duration must be 5 seconds minimum'],
+      max: [120, 'Track duration must be 120 seconds maximum']
+    },
+    pauseDuration: {
+      type: Schema.Types.Number,
+      default: defaultSettings.pauseDuration,
+      min: [0, 'Pause duration must be positive'],
+      max: [60, 'Pause duration must be 60 seconds maximum']
+    },
+    guess: {
+      type: Schema.Types.String,
+      enum: {
+        values: ['title', 'artist', 'both', 'year', 'owner'],
+        message: 'Guess setting must be "title", "artist", "both", "year" or "owner"'
+      },
+      default: defaultSettings.guess
+    },
+    maxPlayers: {
+      type: Schema.Types.Number,
+      default: defaultSettings.maxPlayers,
+      min: [1, 'Maximum players must be 1 minimum'],
+      max: [50, 'Maximum players must be 50 maximum']
+    },
+    answerMode: {
+      type: Schema.Types.String,
+      enum: {
+        values: ['text', 'choice'],
+        message: 'Answer mode setting must be "text" or "choice"'
+      },
+      default: defaultSettings.answerMode
+    },
+    teamMode: {
+      type: Schema.Types.Boolean,
+      default: defaultSettings.teamMode
+    },
+    previews: {
+      type: Schema.Types.String,
+      enum: {
+        values: ['required', 'optional'],
+        message: 'Previews setting must be "required" or "optional"'
+      },
+      default: defaultSettings.previews
+    }
+  }, {
+    _id: false,
+    id: false,
+    timestamps: false,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  });
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
+
+/**
+ * Creates the track subschema.
+ * 
+ * @returns Track subschema
+ */
+function createTrackSchema() {
+  const schema = new Schema({
+    spotifyId: {
+      type: Schema.Types.String,
+      default: null
+    },
+    uri: {
+      type: Schema.Types.String,
+      default: null
+    },
+    name: {
+      type: Schema.Types.String,
+      required: [true, 'Track name is required']
+    },
+    artists: {
+      type: [Schema.Types.String],
+      default: []
+    },
+    album: {
+      type: Schema.Types.String,
+      default: null
+    },
+    imageUrl: {
+      type: Schema.Types.String,
+      default: null
+    },
+    releaseDate: {
+      type: Schema.Types.String,
+      default: null
+    },
+    previewUrl: {
+      type: Schema.Types.String,
+      default: null
+    },
+    previewOffset: {
+      type: Schema.Types.Number,
+      default: 0
+    },
+    choices: {
+      type: [{
+        _id: false,
+        name: Schema.Types.String,
+        artists: [Schema.Types.String]
+      }],
+      default: undefined
+    },
+    answerIndex: {
+      type: Schema.Types.Number,
+      default: null
+    },
+    owners: {
+      type: [Schema.Types.String],
+      default: undefined
+    }
+  }, {
+    timestamps: false,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  });
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
+
+/**
+ * Creates the round subschema.
+ * 
+ * @returns Round subschema
+ */
+function createRoundSchema() {
+  const schema = new Schema({
+    index: {
+      type: Schema.Types.Number,
+      required: [true, 'Round index is required']
+    },
+    track: {
+      type: createTrackSchema(),
+      required: [true, 'Round track is required']
+    },
+    startedAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    endedAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    skipped: {
+      type: Schema.Types.Boolean,
+      default: false
+    },
+    answers: {
+      type: [{
+        _id: false,
+        player: Schema.Types.String,
+        name: Schema.Types.String,
+        answer: Schema.Types.String,
+        choice: Schema.Types.Number,
+        title: Schema.Types.Boolean,
+        artist: Schema.Types.Boolean,
+        titleLatency: Schema.Types.Number,
+        artistLatency: Schema.Types.Number,
+        year: Schema.Types.Number,
+        yearFound: Schema.Types.Boolean,
+        yearLatency: Schema.Types.Number,
+        pick: Schema.Types.String,
+        ownerFound: Schema.Types.Boolean,
+        ownerLatency: Schema.Types.Number,
+        points: Schema.Types.Number
+      }],
+      default: []
+    }
+  }, {
+    timestamps: false,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  });
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
+
+/**
+ * Creates the results subschema.
+ * 
+ * @returns Results subschema
+ */
+function createResultsSchema() {
+  const schema = new Schema({
+    finishedAt: {
+      type: Schema.Types.Date,
+      default: null
+    },
+    players: {
+      type: [{
+        _id: false,
+        rank: Schema.Types.Number,
+        player: Schema.Types.String,
+        name: Schema.Types.String,
+        score: Schema.Types.Number,
+        ratingDelta: Schema.Types.Number
+      }],
+      default: []
+    },
+    teams: {
+      type: [{
+        _id: false,
+        rank: Schema.Types.Number,
+        team: Schema.Types.String,
+        name: Schema.Types.String,
+        color: Schema.Types.String,
+        score: Schema.Types.Number
+      }],
+      default: undefined
     }
   }, {
+    _id: false,
+    id: false,
     timestamps: false,
     toJSON: { virtuals: true },
     toObject: { virtuals: true }
@@ -8,6 +8,32 @@ import Attributes from './model';
  */
 export interface UserAttributes extends Attributes {
   spotifyId: string;
+  country?: string;
+  rating?: number;
+  ratingHistory?: RatingHistoryAttributes[];
+  achievements?: UnlockedAchievementAttributes[];
+}
+
+/**
+ * Rating history attributes.
+ * 
+ * Each rated game adds an entry, used to compute leaderboards over a time window.
+ */
+export interface RatingHistoryAttributes {
+  game: string;
+  delta: number;
+  rating: number;
+  date: Date;
+}
+
+/**
+ * Unlocked achievement attributes.
+ * 
+ * The ID refers to an achievement rule of the achievements configuration.
+ */
+export interface UnlockedAchievementAttributes {
+  id: string;
+  unlockedAt: Date;
 }
 
 /**
@@ -22,19 +48,47 @@ export interface UserInstance extends UserAttributes, Document {}
  * @param mongoose Mongoose instance
  */
 export default function createModel(container: ServiceContainer, mongoose: Mongoose): Model<UserInstance> {
-  return mongoose.model('User', createUserSchema(), 'users');
+  return mongoose.model('User', createUserSchema(container), 'users');
 }
 
 /**
  * Creates the user schema.
  * 
+ * @param container Services container
  * @returns User schema
  */
-function createUserSchema() {
+function createUserSchema(container: ServiceContainer) {
   const schema = new Schema<UserInstance>({
     spotifyId: {
       type: Schema.Types.String,
       required: [true, 'Spotify user ID is required']
+    },
+    country: {
+      type: Schema.Types.String,
+      default: null
+    },
+    rating: {
+      type: Schema.Types.Number,
+      default: container.config.services.ratings.initial
+    },
+    ratingHistory: {
+      type: [{
+        _id: false,
+        game: Schema.Types.String,
+        delta: Schema.Types.Number,
+        rating: Schema.Types.Number,
+        date: Schema.Types.Date
+      }],
+      default: [],
+      private: true
+    },
+    achievements: {
+      type: [{
+        _id: false,
+        id: Schema.Types.String,
+        unlockedAt: Schema.Types.Date
+      }],
+      default: []
     }
   }, {
     timestamps: true,
@@ -0,0 +1,180 @@
+import _ from 'lodash';
+import { GameInstance, PlayerAttributes } from '../models/game-model';
+import { UserInstance } from '../models/user-model';
+import { AchievementMetric, AchievementRule } from './configuration-service';
+import Service from './service';
+import ServiceContainer from './service-container';
+import { AchievementServerToClientEvent, EventType } from './websocket-service';
+
+/**
+ * Achievements service class.
+ * 
+ * This service is used to unlock achievements of users when a game is finished.
+ * 
+ * Achievements rules are declared in the achievements configuration (`config/achievements.yml`). Each rule checks a metric,
+ * computed from the finished game (game metrics) or from all finished games of the user (user metrics).
+ */
+export default class AchievementService extends Service {
+
+  /**
+   * Creates a new achievements service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Evaluates achievements rules for users linked to a finished game.
+   * 
+   * New unlocked achievements are saved in users and sent to their players. Games finished before their first round are not evaluated.
+   * 
+   * @param game Finished game
+   * @async
+   */
+  public async evaluate(game: GameInstance): Promise<void> {
+    const linkedPlayers = game.players.filter(player => player.user != null);
+    if (game.round < 0 || game.rounds.length === 0 || linkedPlayers.length === 0) {
+      return;
+    }
+    const users = await this.db.users.find().where('_id').in(linkedPlayers.map(player => player.user));
+    for (const player of linkedPlayers) {
+      const user = users.find(user => user._id.equals(player.user));
+      if (user == null) {
+        continue;
+      }
+      const unlocked = this.unlock(user, { ...await this.getUserMetrics(user), ...this.getGameMetrics(game, player) });
+      if (unlocked.length > 0) {
+        await user.save();
+        this.container.websocket.emitToPlayer<AchievementServerToClientEvent>(game.id, player.id, EventType.ACHIEVEMENT, {
+          achievements: unlocked.map(rule => this.format(rule, _.last(user.achievements).unlockedAt))
+        });
+      }
+    }
+  }
+
+  /**
+   * Gets unlocked achievements of an user.
+   * 
+   * Unlocked achievements with no rule in configuration anymore are ignored.
+   * 
+   * @param user User
+   * @returns Unlocked achievements
+   */
+  public getAchievements(user: UserInstance): Achievement[] {
+    return user.achievements
+      .map(unlocked => ({ rule: this.getRule(unlocked.id), unlockedAt: unlocked.unlockedAt }))
+      .filter(unlocked => unlocked.rule != null)
+      .map(unlocked => this.format(unlocked.rule, unlocked.unlockedAt));
+  }
+
+  /**
+   * Unlocks achievements of an user whose rules are satisfied by metrics.
+   * 
+   * The user is not saved.
+   * 
+   * @param user User
+   * @param metrics Metrics
+   * @returns Rules of new unlocked achievements
+   */
+  private unlock(user: UserInstance, metrics: Partial<Record<AchievementMetric, number>>): AchievementRule[] {
+    const unlockedAt = new Date();
+    const rules = this.container.config.achievements.achievements.filter(rule => {
+      const value = metrics[rule.metric];
+      return !user.achievements.some(unlocked => unlocked.id === rule.id)
+        && value != null
+        && (rule.min == null || value >= rule.min)
+        && (rule.max == null || value <= rule.max);
+    });
+    rules.forEach(rule => user.achievements.push({ id: rule.id, unlockedAt }));
+    return rules;
+  }
+
+  /**
+   * Gets user metrics, computed from all finished games of an user.
+   * 
+   * @param user User
+   * @returns User metrics
+   * @async
+   */
+  private async getUserMetrics(user: UserInstance): Promise<Partial<Record<AchievementMetric, number>>> {
+    const { stats } = await this.container.stats.getStats(user.id, { page: 1, limit: 1, skip: 0 });
+    return {
+      gamesPlayed: stats.played,
+      gamesWon: stats.won,
+      playlistsPlayed: stats.playlists,
+      rating: user.rating
+    };
+  }
+
+  /**
+   * Gets game metrics of a player, computed from a finished game.
+   * 
+   * A round is perfect when the player found every part to guess. The fastest answer is `null` if the player found nothing.
+   * 
+   * @param game Finished game
+   * @param player Player
+   * @returns Game metrics
+   */
+  private getGameMetrics(game: GameInstance, player: PlayerAttributes): Partial<Record<AchievementMetric, number>> {
+    const answers = game.rounds.map(round => round.answers.find(answer => answer.player === player.id)).filter(answer => answer != null);
+    let perfectStreak = 0;
+    let currentStreak = 0;
+    for (const answer of answers) {
+      let perfect: boolean;
+      switch (game.settings.guess) {
+        case 'year':
+          perfect = answer.yearFound;
+          break;
+        case 'owner':
+          perfect = answer.ownerFound;
+          break;
+        default:
+          perfect = (game.settings.guess === 'artist' || answer.title) && (game.settings.guess === 'title' || answer.artist);
+          break;
+      }
+      currentStreak = perfect ? currentStreak + 1 : 0;
+      perfectStreak = Math.max(perfectStreak, currentStreak);
+    }
+    const latencies = _.flatMap(answers, answer => [answer.titleLatency, answer.artistLatency]).filter(latency => latency != null);
+    const result = game.results?.players.find(entry => entry.player === player.id);
+    return {
+      rank: result?.rank,
+      score: result?.score,
+      perfectStreak,
+      fastestAnswer: latencies.length > 0 ? _.min(latencies) : null
+    };
+  }
+
+  /**
+   * Gets an achievement rule.
+   * 
+   * @param id Achievement ID
+   * @returns Achievement rule, or `undefined` if not found
+   */
+  private getRule(id: string): AchievementRule {
+    return this.container.config.achievements.achievements.find(rule => rule.id === id);
+  }
+
+  /**
+   * Formats an unlocked achievement.
+   * 
+   * @param rule Achievement rule
+   * @param unlockedAt Unlock date
+   * @returns Achievement
+   */
+  private format(rule: AchievementRule, unlockedAt: Date): Achievement {
+    return { id: rule.id, name: rule.name, description: rule.description, unlockedAt };
+  }
+}
+
+/**
+ * Achievement interface.
+ */
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  unlockedAt: Date;
+}
@@ -0,0 +1,201 @@
+import { TrackAttributes } from '../models/game-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Answers service class.
+ * 
+ * This service is used to evaluate answers submitted by players against the played track.
+ */
+export default class AnswerService extends Service {
+
+  /**
+   * Creates a new answers service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Evaluates an answer against a track title and artists.
+   * 
+   * @param answer Submitted answer
+   * @param track Played track
+   * @returns Verdicts for the title and the artists
+   */
+  public evaluate(answer: string, track: TrackAttributes): AnswerEvaluation {
+    const normalizedAnswer = this.normalize(answer);
+    return {
+      title: this.compare(normalizedAnswer, this.normalizeTitle(track.name)),
+      artist: this.bestVerdict(...track.artists.map(artist => this.compare(normalizedAnswer.replace(/^the /, ''), this.normalizeArtist(artist))))
+    };
+  }
+
+  /**
+   * Evaluates a choice against the answer index of a track, in multiple-choice answer mode.
+   * 
+   * @param choice Picked choice index
+   * @param track Played track
+   * @returns Verdicts for the title and the artists
+   */
+  public evaluateChoice(choice: number, track: TrackAttributes): AnswerEvaluation {
+    const verdict: Verdict = choice === track.answerIndex ? 'exact' : 'wrong';
+    return { title: verdict, artist: verdict };
+  }
+
+  /**
+   * Evaluates a release year against the release date of a track, in "guess the year" mode.
+   * 
+   * @param year Guessed year
+   * @param track Played track
+   * @returns Difference (in years) with the release year, or `null` if the track release year is unknown
+   */
+  public evaluateYear(year: number, track: TrackAttributes): number {
+    const releaseYear = this.getReleaseYear(track);
+    return releaseYear != null ? Math.abs(year - releaseYear) : null;
+  }
+
+  /**
+   * Gets the release year of a track.
+   * 
+   * Release dates have a year, year-month or year-month-day precision, so only the first 4 characters are parsed.
+   * 
+   * @param track Track
+   * @returns Release year, or `null` if unknown
+   */
+  public getReleaseYear(track: TrackAttributes): number {
+    const year = track.releaseDate != null ? Number.parseInt(track.releaseDate.substring(0, 4)) : NaN;
+    return Number.isInteger(year) && year > 0 ? year : null;
+  }
+
+  /**
+   * Normalizes a track title.
+   * 
+   * Featuring credits and version suffixes (like "- Remastered 2011" or "(Live)") are removed before normalization.
+   * 
+   * @param title Title to normalize
+   * @returns Normalized title
+   */
+  public normalizeTitle(title: string): string {
+    const { versionKeywords } = this.container.config.services.answers;
+    const keywords = versionKeywords.join('|');
+    return this.normalize(title
+      .replace(/[([][^)\]]*\b(feat|ft|featuring|with)\b\.?[^)\]]*[)\]]/gi, ' ')
+      .replace(/\s\b(feat|ft|featuring)\b\.?\s.*$/i, ' ')
+      .replace(new RegExp(`[([][^)\\]]*\\b(${keywords})\\b[^)\\]]*[)\\]]`, 'gi'), ' ')
+      .replace(new RegExp(`\\s[-–—]\\s.*\\b(${keywords})\\b.*$`, 'i'), ' '));
+  }
+
+  /**
+   * Normalizes an artist name.
+   * 
+   * The leading article "the" is removed, so "Beatles" matches "The Beatles".
+   * 
+   * @param artist Artist name to normalize
+   * @returns Normalized artist name
+   */
+  public normalizeArtist(artist: string): string {
+    return this.normalize(artist).replace(/^the /, '');
+  }
+
+  /**
+   * Normalizes a text.
+   * 
+   * Accents, case, apostrophes, punctuation and extra spaces are removed. Letters of every script are kept, so non-Latin titles and artists can be guessed.
+   * 
+   * @param text Text to normalize
+   * @returns Normalized text
+   */
+  public normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/['’]/g, '')
+      .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+      .trim();
+  }
+
+  /**
+   * Returns the best verdict between many verdicts.
+   * 
+   * @param verdicts Verdicts
+   * @returns Best verdict (`wrong` if there is no verdict)
+   */
+  public bestVerdict(...verdicts: Verdict[]): Verdict {
+    if (verdicts.includes('exact')) {
+      return 'exact';
+    }
+    if (verdicts.includes('close')) {
+      return 'close';
+    }
+    return 'wrong';
+  }
+
+  /**
+   * Checks if a verdict accepts the answer.
+   * 
+   * @param verdict Verdict
+   * @returns True if the answer is accepted (exact or close), false otherwise
+   */
+  public isAccepted(verdict: Verdict): boolean {
+    return verdict !== 'wrong';
+  }
+
+  /**
+   * Compares a normalized answer with a normalized expected value.
+   * 
+   * @param answer Normalized answer
+   * @param expected Normalized expected value
+   * @returns Verdict
+   */
+  private compare(answer: string, expected: string): Verdict {
+    if (answer.length === 0 || expected.length === 0) {
+      return 'wrong';
+    }
+    if (answer === expected) {
+      return 'exact';
+    }
+    const tolerance = Math.floor(expected.length * this.container.config.services.answers.typoTolerance);
+    return this.distance(answer.replace(/ /g, ''), expected.replace(/ /g, '')) <= tolerance ? 'close' : 'wrong';
+  }
+
+  /**
+   * Computes the edit distance (Levenshtein) between two strings.
+   * 
+   * @param a First string
+   * @param b Second string
+   * @returns Edit distance
+   */
+  private distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+        current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
+
+/**
+ * Verdict type.
+ * 
+ * An answer is accepted when its verdict is `exact` or `close` (with small typos).
+ */
+export type Verdict = 'exact' | 'close' | 'wrong';
+
+/**
+ * Answer evaluation interface.
+ */
+export interface AnswerEvaluation {
+  title: Verdict;
+  artist: Verdict;
+}
@@ -38,18 +38,32 @@ export default class AuthenticationService extends Service {
    */
   public async authenticateHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
     const token = req.headers?.authorization?.split(' ')[1];
+    const user = await this.container.auth.authenticate(token);
+    if (user != null) {
+      res.locals.authUser = user;
+    }
+    return next();
+  }
+
+  /**
+   * Authenticates an user with an access token.
+   * 
+   * This method is used where there is no Express request, like websocket events.
+   * 
+   * @param token Access token
+   * @returns Authenticated user, or `null` if the token is missing or invalid
+   * @async
+   */
+  public async authenticate(token: string): Promise<UserInstance> {
     if (token != null) {
       try {
         const data = await this.container.tokens.decode<AccessTokenData>(token, process.env.ACCESS_TOKEN_KEY);
-        const user = await this.container.db.users.findById(data.userId);
-        if (user != null) {
-          res.locals.authUser = user;
-        }
+        return await this.container.db.users.findById(data.userId);
       } catch (err) {
         this.logger.error('Could not authenticate :', err.message);
       }
     }
-    return next();
+    return null;
   }
 
   /**
@@ -73,6 +87,8 @@ export default class AuthenticationService extends Service {
   /**
    * Creates a new account if the provided Spotify ID doesn't exists.
    * 
+   * The country of an existing account is updated from Spotify user data.
+   * 
    * @param data Spotify user data
    * @returns User linked with Spotify user ID (created or not)
    */
@@ -80,8 +96,12 @@ export default class AuthenticationService extends Service {
     let user = await this.db.users.findOne({ spotifyId: data.id });
     if (user == null) {
       user = await this.db.users.create({
-        spotifyId: data.id
+        spotifyId: data.id,
+        country: data.country ?? null
       });
+    } else if (data.country != null && user.country !== data.country) {
+      user.country = data.country;
+      await user.save();
     }
     return user;
   }
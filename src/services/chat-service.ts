@@ -0,0 +1,163 @@
+import _ from 'lodash';
+import { GameInstance, PlayerAttributes, Status } from '../models/game-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Chat service class.
+ * 
+ * This service is used to manage in-game chat messages :
+ *  - Messages are truncated, and filtered words are masked
+ *  - Players are rate limited
+ *  - While a track is playing, messages containing the answer are hidden to other players
+ *  - The last messages of each game are kept in memory, so reconnecting players see recent context
+ */
+export default class ChatService extends Service {
+
+  private readonly history: Map<string, ChatMessage[]>;
+  private readonly sentDates: Map<string, number[]>;
+
+  /**
+   * Creates a new chat service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+    this.history = new Map();
+    this.sentDates = new Map();
+  }
+
+  /**
+   * Posts a message from a player.
+   * 
+   * Hidden messages are not kept in history.
+   * 
+   * @param game Game
+   * @param player Sender
+   * @param text Message text
+   * @returns Posted message
+   */
+  public post(game: GameInstance, player: PlayerAttributes, text: string): ChatMessage {
+    const content = this.filter(text.trim().substring(0, this.container.config.services.chat.maxLength));
+    const message: ChatMessage = {
+      id: this.container.crypto.generateRandomString(16),
+      player: { id: player.id, name: player.name },
+      text: content,
+      sentAt: new Date(),
+      hidden: this.spoils(game, content)
+    };
+    if (!message.hidden) {
+      const messages = this.history.get(game.id) ?? [];
+      messages.push(message);
+      this.history.set(game.id, _.takeRight(messages, this.container.config.services.chat.historySize));
+    }
+    return message;
+  }
+
+  /**
+   * Checks if a player exceeds the rate limit, and records a new sent message otherwise.
+   * 
+   * @param game Game
+   * @param player Sender
+   * @returns True if the player is rate limited, false otherwise
+   */
+  public isRateLimited(game: GameInstance, player: PlayerAttributes): boolean {
+    const { rateLimit, rateLimitPeriod } = this.container.config.services.chat;
+    const key = `${game.id}:${player.id}`;
+    const now = Date.now();
+    const dates = (this.sentDates.get(key) ?? []).filter(date => date > now - rateLimitPeriod * 1000);
+    if (dates.length >= rateLimit) {
+      this.sentDates.set(key, dates);
+      return true;
+    }
+    dates.push(now);
+    this.sentDates.set(key, dates);
+    return false;
+  }
+
+  /**
+   * Masks filtered words of a text.
+   * 
+   * @param text Text to filter
+   * @returns Filtered text
+   */
+  public filter(text: string): string {
+    const { filteredWords } = this.container.config.services.chat;
+    if (filteredWords.length === 0) {
+      return text;
+    }
+    const pattern = new RegExp(`\\b(${filteredWords.map(word => _.escapeRegExp(word)).join('|')})\\b`, 'gi');
+    return text.replace(pattern, word => '*'.repeat(word.length));
+  }
+
+  /**
+   * Checks if a text spoils the answer of the track currently playing.
+   * 
+   * A text spoils the answer if it contains the title or an artist, or if it would be accepted as a guess. In "guess the year" mode,
+   * a text spoils the answer if it contains the release year. In social mode, a text spoils the answer if it contains the name of an owner.
+   * 
+   * @param game Game
+   * @param text Text to check
+   * @returns True if the text spoils the answer, false otherwise
+   */
+  public spoils(game: GameInstance, text: string): boolean {
+    const track = game.status === Status.TIMER_CURRENT ? game.deck[game.round] : null;
+    if (track == null) {
+      return false;
+    }
+    const { answers } = this.container;
+    const normalizedText = ` ${answers.normalize(text)} `;
+    if (game.settings.guess === 'year') {
+      const year = answers.getReleaseYear(track);
+      return year != null && new RegExp(`\\b${year}\\b`).test(text);
+    }
+    if (game.settings.guess === 'owner') {
+      return game.players
+        .filter(player => track.owners?.includes(player.id))
+        .map(player => answers.normalize(player.name))
+        .some(name => name.length > 0 && normalizedText.includes(` ${name} `));
+    }
+    const parts = [answers.normalizeTitle(track.name), ...track.artists.map(artist => answers.normalizeArtist(artist))].filter(part => part.length > 0);
+    if (parts.some(part => normalizedText.includes(` ${part} `))) {
+      return true;
+    }
+    const evaluation = answers.evaluate(text, track);
+    return answers.isAccepted(evaluation.title) || answers.isAccepted(evaluation.artist);
+  }
+
+  /**
+   * Gets the last messages of a game.
+   * 
+   * @param game Game
+   * @returns Last messages
+   */
+  public getHistory(game: GameInstance): ChatMessage[] {
+    return this.history.get(game.id) ?? [];
+  }
+
+  /**
+   * Clears the messages and rate limits of a game.
+   * 
+   * @param game Game
+   */
+  public clear(game: GameInstance): void {
+    this.history.delete(game.id);
+    for (const key of [...this.sentDates.keys()].filter(key => key.startsWith(`${game.id}:`))) {
+      this.sentDates.delete(key);
+    }
+  }
+}
+
+/**
+ * Chat message interface.
+ * 
+ * Hidden messages spoil the answer of the track currently playing, they are only sent back to their sender.
+ */
+export interface ChatMessage {
+  id: string;
+  player: Pick<PlayerAttributes, 'id' | 'name'>;
+  text: string;
+  sentAt: Date;
+  hidden: boolean;
+}
@@ -1,5 +1,6 @@
 import fs from 'fs';
 import YAML from 'yaml';
+import { AnswerMode, GuessType, PreviewMode } from '../models/game-model';
 import Service from './service';
 import ServiceContainer from './service-container';
 
@@ -12,6 +13,7 @@ export default class ConfigurationService extends Service {
 
   private _api: APIConfiguration | null;
   private _services: ServicesConfiguration | null;
+  private _achievements: AchievementsConfiguration | null;
 
   /**
    * Creates a new configuration service.
@@ -22,6 +24,7 @@ export default class ConfigurationService extends Service {
     super(container);
     this._api = null;
     this._services = null;
+    this._achievements = null;
   }
 
   /**
@@ -75,6 +78,14 @@ export default class ConfigurationService extends Service {
     }
     return this._services;
   }
+
+  public get achievements(): AchievementsConfiguration {
+    if (!this._achievements) {
+      this._achievements = this.loadSync<AchievementsConfiguration>('config/achievements.yml', 'YAML');
+      this.logger.info('Loaded achievements configuration');
+    }
+    return this._achievements;
+  }
 }
 
 /**
@@ -106,6 +117,10 @@ export interface ServicesConfiguration {
   express: {
     requestSizeLimit: string;
   };
+  pagination: {
+    defaultLimit: number;
+    maxLimit: number;
+  };
   spotify: {
     apiUrl: string;
     endpoints: {
@@ -113,6 +128,7 @@ export interface ServicesConfiguration {
       ownTopArtists: string;
       ownTopTracks: string;
       ownPlaylists: string;
+      playlists: string;
       users: string;
       tracks: string;
     };
@@ -121,5 +137,87 @@ export interface ServicesConfiguration {
     autoFinishInactiveGamesCooldown: number;
     codeLength: number;
     inactiveTime: number;
+    maxPauseTime: number;
+    choicesCount: number;
+    kickReasonLength: number;
+    skipVoteRatio: number;
+    forceStartCountdown: number;
+    authorDisconnectDelay: number;
+    previewDuration: number;
+    maxTeams: number;
+    maxTeamSizeGap: number;
+    defaultTeams: {
+      name: string;
+      color: string;
+    }[];
+    defaultSettings: {
+      rounds: number;
+      trackDuration: number;
+      pauseDuration: number;
+      guess: GuessType;
+      maxPlayers: number;
+      answerMode: AnswerMode;
+      teamMode: boolean;
+      previews: PreviewMode;
+    };
+  };
+  answers: {
+    typoTolerance: number;
+    maxLength: number;
+    versionKeywords: string[];
+  };
+  scores: {
+    titlePoints: number;
+    artistPoints: number;
+    minPointsRatio: number;
+    streakBonus: number;
+    maxStreakMultiplier: number;
+    yearPoints: number;
+    yearRange: number;
+    ownerPoints: number;
+  };
+  hints: {
+    delays: number[];
+    penalty: number;
+  };
+  social: {
+    topTracksLimit: number;
+  };
+  chat: {
+    maxLength: number;
+    historySize: number;
+    rateLimit: number;
+    rateLimitPeriod: number;
+    filteredWords: string[];
+  };
+  ratings: {
+    initial: number;
+    kFactor: number;
   };
 }
+
+/**
+ * Achievements configuration.
+ */
+export interface AchievementsConfiguration {
+  achievements: AchievementRule[];
+}
+
+/**
+ * Achievement rule.
+ * 
+ * The achievement is unlocked when the metric is greater than or equal to `min`, and lower than or equal to `max`.
+ */
+export interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  metric: AchievementMetric;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Achievement metric type.
+ */
+export type AchievementMetric = 'gamesPlayed' | 'gamesWon' | 'playlistsPlayed' | 'rating' | 'rank' | 'score' | 'perfectStreak' | 'fastestAnswer';
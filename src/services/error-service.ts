@@ -101,11 +101,16 @@ export interface APIErrorResponse {
  */
 export type ErrorCode =
     'access_denied'
+  | 'deck_too_small'
   | 'invalid_client'
   | 'invalid_grant'
   | 'invalid_request'
   | 'invalid_scope'
   | 'not_found'
+  | 'playlist_forbidden'
+  | 'playlist_not_found'
+  | 'playlist_region_restricted'
+  | 'playlist_too_small'
   | 'server_error'
   | 'temporarily_unavailable'
   | 'unauthorized_client'
@@ -1,7 +1,10 @@
+import axios from 'axios';
 import _ from 'lodash';
-import { Status } from '../models/game-model';
+import { GameInstance, PlayerAttributes, ResultsAttributes, SettingsAttributes, Status, TrackAttributes } from '../models/game-model';
+import { APIError } from './error-service';
 import Service from './service';
 import ServiceContainer from './service-container';
+import { PlaylistTrackData, TrackData, UserData } from './spotify-service';
 
 /**
  * Games service class.
@@ -11,6 +14,8 @@ import ServiceContainer from './service-container';
 export default class GameService extends Service {
 
   private _usedCodes: string[];
+  private readonly operations: Map<string, Promise<void>>;
+  private readonly spotifyTokens: Map<string, string>;
   private readonly autoFinishInactiveGamesTaskName: string;
 
   /**
@@ -21,6 +26,8 @@ export default class GameService extends Service {
   public constructor(container: ServiceContainer) {
     super(container);
     this._usedCodes = [];
+    this.operations = new Map();
+    this.spotifyTokens = new Map();
     this.autoFinishInactiveGamesTaskName = 'auto-finish-inactive-games';
     this.finishInactiveGamesTask = this.finishInactiveGamesTask.bind(this);
   }
@@ -50,16 +57,446 @@ export default class GameService extends Service {
     this.logger.info('Fetched used codes :', this._usedCodes);
   }
 
+  /**
+   * Runs an operation exclusively on a game : operations on the same game are run one after the other.
+   * 
+   * Operations reading then updating a game (like answers and round engine steps) must fetch the game inside the exclusive operation,
+   * so they never update a stale copy of the game. Exclusive operations on the same game can not be nested.
+   * 
+   * @param code Game code
+   * @param operation Operation to run
+   * @returns Operation result
+   * @async
+   */
+  public async runExclusive<T>(code: string, operation: () => Promise<T>): Promise<T> {
+    const result = (this.operations.get(code) ?? Promise.resolve()).then(operation);
+    const queue = result.then(() => null, () => null);
+    this.operations.set(code, queue);
+    try {
+      return await result;
+    } finally {
+      if (this.operations.get(code) === queue) {
+        this.operations.delete(code);
+      }
+    }
+  }
+
+  /**
+   * Finishes a game.
+   * 
+   * The final ranking is saved in the game results, ratings and achievements of linked accounts are updated, and the game code is released so it can be used by a new game.
+   * 
+   * Games finished before their first round (like lobbies left by all players) have no results.
+   * 
+   * @param game Game to finish
+   * @async
+   */
+  public async finish(game: GameInstance): Promise<void> {
+    _.pull(this._usedCodes, game.code);
+    game.status = Status.FINISHED;
+    game.code = null;
+    game.results = game.round >= 0 ? this.createResults(game) : null;
+    this.clearSpotifyTokens(game);
+    this.container.chat.clear(game);
+    try {
+      await this.container.ratings.update(game);
+    } catch (err) {
+      this.logger.error('Could not update ratings of game', game.id, ':', err);
+    }
+    await game.save();
+    try {
+      await this.container.achievements.evaluate(game);
+    } catch (err) {
+      this.logger.error('Could not evaluate achievements of game', game.id, ':', err);
+    }
+  }
+
+  /**
+   * Creates the results (final ranking snapshot) of a game.
+   * 
+   * @param game Game
+   * @returns Results
+   */
+  public createResults(game: GameInstance): ResultsAttributes {
+    return {
+      finishedAt: new Date(),
+      players: this.container.scores.getScoreboard(game).map(entry => ({
+        rank: entry.rank,
+        player: entry.player.id,
+        name: entry.player.name,
+        score: entry.score
+      })),
+      teams: this.container.scores.getTeamScoreboard(game)?.map(entry => ({
+        rank: entry.rank,
+        team: entry.team.id,
+        name: entry.team.name,
+        color: entry.team.color,
+        score: entry.score
+      }))
+    };
+  }
+
+  /**
+   * Gives the authorship of a game to a player.
+   * 
+   * If no player is given, the authorship is given to the longest-connected player, or to the first player if nobody is connected.
+   * 
+   * @param game Game
+   * @param target New author
+   * @returns New author
+   */
+  public transferAuthorship(game: GameInstance, target?: PlayerAttributes): PlayerAttributes {
+    if (target == null) {
+      const connected = game.players.filter(player => !player.author && this.container.websocket.isConnected(game.id, player.id));
+      target = _.minBy(connected, player => player.connectedAt?.getTime() ?? Date.now()) ?? game.players.find(player => !player.author);
+    }
+    game.players.forEach(player => player.author = player === target);
+    return target;
+  }
+
+  /**
+   * Bans a player from a game.
+   * 
+   * The player is removed from the game, the player name and fingerprint are stored to reject future join attempts.
+   * 
+   * @param game Game
+   * @param player Player to ban
+   */
+  public ban(game: GameInstance, player: PlayerAttributes): void {
+    game.bans.push({ name: player.name, fingerprint: player.fingerprint });
+    _.remove(game.players, player);
+    game.markModified('players');
+  }
+
+  /**
+   * Checks if a player is banned from a game.
+   * 
+   * A player is banned if the name or the fingerprint matches a ban.
+   * 
+   * @param game Game
+   * @param name Player name
+   * @param fingerprint Player fingerprint
+   * @returns True if the player is banned, false otherwise
+   */
+  public isBanned(game: GameInstance, name: string, fingerprint?: string): boolean {
+    const normalizedName = name?.trim().toLowerCase();
+    return game.bans.some(ban => ban.name.trim().toLowerCase() === normalizedName || (fingerprint != null && ban.fingerprint === fingerprint));
+  }
+
+  /**
+   * Updates the settings of a game.
+   * 
+   * Unknown settings are ignored. Settings are validated when the game is saved.
+   * 
+   * @param game Game
+   * @param settings Settings to update
+   */
+  public updateSettings(game: GameInstance, settings: Partial<SettingsAttributes>): void {
+    Object.assign(game.settings, _.pick(settings, 'rounds', 'trackDuration', 'pauseDuration', 'guess', 'maxPlayers', 'answerMode', 'teamMode', 'previews'));
+  }
+
+  /**
+   * Checks if players of a game are ready.
+   * 
+   * Only connected players are checked, and the author is considered ready because the author starts the game.
+   * 
+   * @param game Game
+   * @returns True if all connected players are ready, false otherwise
+   */
+  public isReady(game: GameInstance): boolean {
+    return game.players
+      .filter(player => !player.author && this.container.websocket.isConnected(game.id, player.id))
+      .every(player => player.ready);
+  }
+
+  /**
+   * Resets the ready check of a game.
+   * 
+   * All players are set as not ready, and the force-start countdown is cancelled.
+   * 
+   * @param game Game
+   */
+  public resetReady(game: GameInstance): void {
+    game.players.forEach(player => player.ready = false);
+    game.forceStartAt = null;
+  }
+
+  /**
+   * Gets the lobby state of a game.
+   * 
+   * @param game Game
+   * @returns Lobby state
+   */
+  public getLobby(game: GameInstance): LobbyState {
+    return {
+      players: game.players.map(player => ({
+        id: player.id,
+        name: player.name,
+        ready: player.ready,
+        connected: this.container.websocket.isConnected(game.id, player.id)
+      })),
+      ready: this.isReady(game),
+      forceStartAt: game.forceStartAt
+    };
+  }
+
+  /**
+   * Builds the round deck of a game from its playlist.
+   * 
+   * Local and unavailable tracks are skipped, the deck is shuffled if the game `shuffle` option is enabled and it is capped at the rounds count of the game settings.
+   * 
+   * In multiple-choice answer mode, choices are generated for each track with decoys drawn from the whole playlist.
+   * 
+   * In "guess the year" mode, tracks without a valid release date are skipped and no choice is generated.
+   * 
+   * Tracks without a preview are skipped if previews are required by the game settings.
+   * 
+   * The playlist is checked before the deck is built : it must exist, be readable by the author and have at least as many usable tracks
+   * as the rounds count of the game settings. Otherwise, an error is returned and the deck is not built.
+   * 
+   * @param game Game
+   * @param token Spotify token of the author
+   * @returns Error if the playlist can not be used, `null` otherwise
+   * @async
+   */
+  public async buildDeck(game: GameInstance, token: string): Promise<APIError> {
+    if (typeof game.playlistId !== 'string' || game.playlistId.length === 0) {
+      return { error: 'invalid_request', error_description: 'Invalid playlist' };
+    }
+    let items: PlaylistTrackData[];
+    try {
+      items = await this.container.spotify.getPlaylistTracks(token, game.playlistId);
+    } catch (err) {
+      const error = this.translatePlaylistError(err);
+      if (error == null) {
+        throw err;
+      }
+      return error;
+    }
+    const available = _.uniqBy(items.filter(item => !item.is_local && item.track != null).map(item => item.track), track => track.id);
+    let tracks = available.filter(track => track.is_playable !== false);
+    if (game.shuffle) {
+      tracks = _.shuffle(tracks);
+    }
+    let pool = tracks.map(track => this.toTrack(track));
+    if (game.settings.guess === 'year') {
+      pool = pool.filter(track => this.container.answers.getReleaseYear(track) != null);
+    }
+    if (game.settings.previews === 'required') {
+      pool = pool.filter(track => track.previewUrl != null);
+    }
+    const { rounds } = game.settings;
+    if (pool.length < rounds) {
+      return available.length >= rounds && tracks.length < rounds
+        ? { error: 'playlist_region_restricted', error_description: `Playlist has less than ${rounds} tracks playable in your region` }
+        : { error: 'playlist_too_small', error_description: `Playlist has less than ${rounds} playable tracks matching the game settings` };
+    }
+    game.deck = _.take(pool, rounds);
+    game.deck.forEach(track => track.previewOffset = this.getPreviewOffset(game));
+    if (game.settings.answerMode === 'choice' && game.settings.guess !== 'year') {
+      game.deck.forEach(track => this.generateChoices(track, pool));
+    }
+    return null;
+  }
+
+  /**
+   * Links the Spotify token of a player, used to build the round deck in social mode.
+   * 
+   * Spotify tokens are only kept in memory. The token must belong to the Spotify account of the user linked to the player.
+   * 
+   * @param game Game
+   * @param player Player
+   * @param token Spotify token
+   * @returns Error if the token can not be linked, `null` otherwise
+   * @async
+   */
+  public async linkSpotifyToken(game: GameInstance, player: PlayerAttributes, token: string): Promise<APIError> {
+    const user = player.user != null ? await this.db.users.findById(player.user) : null;
+    if (user == null) {
+      return { error: 'access_denied', error_description: 'Player not linked to an account' };
+    }
+    let spotifyUser: UserData;
+    try {
+      spotifyUser = await this.container.spotify.getOwnUser(token);
+    } catch (err) {
+      if (!axios.isAxiosError(err) || err.response?.status !== 401) {
+        throw err;
+      }
+      return { error: 'invalid_grant', error_description: 'Invalid Spotify token' };
+    }
+    if (spotifyUser.id !== user.spotifyId) {
+      return { error: 'access_denied', error_description: 'Spotify token of another account' };
+    }
+    this.spotifyTokens.set(`${game.id}:${player.id}`, token);
+    return null;
+  }
+
+  /**
+   * Checks if a player has a linked Spotify token.
+   * 
+   * @param game Game
+   * @param player Player
+   * @returns True if the player has a linked Spotify token, false otherwise
+   */
+  public hasSpotifyToken(game: GameInstance, player: PlayerAttributes): boolean {
+    return this.spotifyTokens.has(`${game.id}:${player.id}`);
+  }
+
+  /**
+   * Builds the round deck of a game from the Spotify top tracks of its players, in social mode.
+   * 
+   * Each deck track has the IDs of the players owning it in their top tracks. The deck is always shuffled, so the tracks of
+   * the players are mixed. Tracks without a preview are skipped if previews are required by the game settings. Spotify tokens of the players
+   * are cleared once the deck is built.
+   * 
+   * The Spotify tokens of all players must be valid, and the deck must have at least as many tracks as the rounds count of the game settings.
+   * Otherwise, an error is returned and the deck is not built.
+   * 
+   * @param game Game
+   * @returns Error if the deck can not be built, `null` otherwise
+   * @async
+   */
+  public async buildSocialDeck(game: GameInstance): Promise<APIError> {
+    const owned = new Map<string, { track: TrackData, owners: string[] }>();
+    for (const player of game.players) {
+      let tracks: TrackData[];
+      try {
+        tracks = await this.container.spotify.getOwnTopTracks(this.spotifyTokens.get(`${game.id}:${player.id}`), this.container.config.services.social.topTracksLimit);
+      } catch (err) {
+        if (!axios.isAxiosError(err) || err.response?.status !== 401) {
+          throw err;
+        }
+        this.spotifyTokens.delete(`${game.id}:${player.id}`);
+        return { error: 'invalid_grant', error_description: `Invalid Spotify token of ${player.name}, who must link the Spotify account again` };
+      }
+      for (const track of tracks.filter(track => track.is_playable !== false)) {
+        const entry = owned.get(track.id) ?? { track, owners: [] };
+        entry.owners.push(player.id);
+        owned.set(track.id, entry);
+      }
+    }
+    const entries = [...owned.values()].filter(entry => game.settings.previews !== 'required' || entry.track.preview_url != null);
+    if (entries.length < game.settings.rounds) {
+      return { error: 'deck_too_small', error_description: `Top tracks of the players have less than ${game.settings.rounds} playable tracks matching the game settings` };
+    }
+    game.deck = _.take(_.shuffle(entries), game.settings.rounds).map(entry => ({
+      ...this.toTrack(entry.track),
+      owners: entry.owners,
+      previewOffset: this.getPreviewOffset(game)
+    }));
+    this.clearSpotifyTokens(game);
+    return null;
+  }
+
+  /**
+   * Converts Spotify track data to a deck track.
+   * 
+   * @param track Spotify track data
+   * @returns Deck track
+   */
+  public toTrack(track: TrackData): TrackAttributes {
+    return {
+      spotifyId: track.id,
+      uri: track.uri,
+      name: track.name,
+      artists: track.artists.map(artist => artist.name),
+      album: track.album.name,
+      imageUrl: track.album.images[0]?.url ?? null,
+      releaseDate: track.album.release_date,
+      previewUrl: track.preview_url ?? null
+    };
+  }
+
+  /**
+   * Picks a random start offset (in seconds) inside a track preview, so the whole round duration fits in the preview.
+   * 
+   * @param game Game
+   * @returns Preview start offset
+   */
+  private getPreviewOffset(game: GameInstance): number {
+    return _.random(0, Math.max(this.container.config.services.games.previewDuration - game.settings.trackDuration, 0));
+  }
+
+  /**
+   * Translates a Spotify API error, got while fetching a playlist, to an API error.
+   * 
+   * @param err Error
+   * @returns API error, or `null` if the error is not a Spotify API error about the playlist
+   */
+  private translatePlaylistError(err: unknown): APIError {
+    if (!axios.isAxiosError(err)) {
+      return null;
+    }
+    switch (err.response?.status) {
+      case 401:
+        return { error: 'invalid_grant', error_description: 'Invalid Spotify token' };
+      case 403:
+        return { error: 'playlist_forbidden', error_description: 'Playlist not readable' };
+      case 400:
+      case 404:
+        return { error: 'playlist_not_found', error_description: 'Playlist not found' };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Clears the Spotify tokens of the players of a game.
+   * 
+   * @param game Game
+   */
+  private clearSpotifyTokens(game: GameInstance): void {
+    for (const key of [...this.spotifyTokens.keys()].filter(key => key.startsWith(`${game.id}:`))) {
+      this.spotifyTokens.delete(key);
+    }
+  }
+
+  /**
+   * Generates choices of a track for the multiple-choice answer mode.
+   * 
+   * Decoys never duplicate the answer. Decoys sharing an artist with the answer are preferred, then decoys from the same era (decade).
+   * 
+   * @param track Track
+   * @param pool Tracks to draw decoys from
+   */
+  private generateChoices(track: TrackAttributes, pool: TrackAttributes[]): void {
+    const { choicesCount } = this.container.config.services.games;
+    const key = (entry: TrackAttributes) => `${this.container.answers.normalizeTitle(entry.name)}|${entry.artists.map(artist => this.container.answers.normalizeArtist(artist)).sort().join(',')}`;
+    const decade = (entry: TrackAttributes) => entry.releaseDate != null ? Math.floor(Number.parseInt(entry.releaseDate.substring(0, 4)) / 10) : null;
+    const candidates = _.uniqBy(pool.filter(other => key(other) !== key(track)), key);
+    const sameArtist = _.shuffle(candidates.filter(other => _.intersection(other.artists, track.artists).length > 0));
+    const sameEra = _.shuffle(_.difference(candidates, sameArtist).filter(other => decade(other) != null && decade(other) === decade(track)));
+    const others = _.shuffle(_.difference(candidates, sameArtist, sameEra));
+    const decoys = _.take([...sameArtist, ...sameEra, ...others], choicesCount - 1);
+    const choices = _.shuffle([track, ...decoys]);
+    track.choices = choices.map(choice => ({ name: choice.name, artists: choice.artists }));
+    track.answerIndex = choices.indexOf(track);
+  }
+
+  /**
+   * Finishes inactive games.
+   * 
+   * A game is inactive if it has not been updated for the configured inactive time, or if it has been paused for the configured maximum pause time.
+   * Games are fetched again inside an exclusive operation, so a game updated in the meantime is not finished. Finished games are
+   * broadcasted to their players like games finished by the round engine.
+   */
   private async finishInactiveGamesTask(): Promise<void> {
-    const limitDate = new Date(Date.now() - this.container.config.services.games.inactiveTime * 60 * 1000);
+    const { inactiveTime, maxPauseTime } = this.container.config.services.games;
+    const limitDate = new Date(Date.now() - inactiveTime * 60 * 1000);
+    const pauseLimitDate = new Date(Date.now() - maxPauseTime * 60 * 1000);
+    const isInactive = (game: GameInstance) => game != null && !game.finished && (game.paused
+      ? game.pausedAt.getTime() < pauseLimitDate.getTime()
+      : game.updatedAt.getTime() < limitDate.getTime());
     const startedGames = await this.db.games.find().where('status').in([Status.INIT, Status.TIMER_BETWEEN, Status.TIMER_CURRENT]);
-    const inactiveGames = startedGames.filter(game => game.updatedAt.getTime() < limitDate.getTime());
+    const inactiveGames = startedGames.filter(isInactive);
     inactiveGames.forEach(async game => {
       try {
-        _.remove(this._usedCodes, game.code);
-        game.status = Status.FINISHED;
-        game.code = null;
-        await game.save();
+        await this.runExclusive(game.code, async () => {
+          const current = await this.db.games.findById(game.id);
+          if (isInactive(current)) {
+            await this.container.rounds.finish(current);
+          }
+        });
       } catch (err) {
         this.logger.error('Could not finish inactive game', game.id, ':', err);
       }
@@ -73,3 +510,19 @@ export default class GameService extends Service {
     return this._usedCodes;
   }
 }
+
+/**
+ * Lobby state interface.
+ * 
+ * The lobby state is used for the ready check before the game starts.
+ */
+export interface LobbyState {
+  players: {
+    id: string;
+    name: string;
+    ready: boolean;
+    connected: boolean;
+  }[];
+  ready: boolean;
+  forceStartAt: Date;
+}
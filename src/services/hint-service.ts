@@ -0,0 +1,195 @@
+import { GameInstance, PlayerAttributes, Status, TrackAttributes } from '../models/game-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+import { EventType, HintServerToClientEvent } from './websocket-service';
+
+/**
+ * Hints service class.
+ * 
+ * This service is used to reveal progressively more of the answer during rounds :
+ *  - Level 1 : the letter count of the title
+ *  - Level 2 : the first letter of each word of the title
+ *  - Level 3 : the initials of the artists
+ * 
+ * Hints are revealed to everyone after the configured delays. Players can also request a personal hint of the next level, which reduces
+ * their maximum points for the round. Hints are computed from normalized titles and artists, like answers checking.
+ */
+export default class HintService extends Service {
+
+  public static readonly MAX_LEVEL = 3;
+
+  /**
+   * Creates a new hints service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Schedules the hints of the current round of a game.
+   * 
+   * Only hints not yet revealed are scheduled, so this method is also used when a paused game is resumed.
+   * 
+   * @param game Game
+   */
+  public schedule(game: GameInstance): void {
+    if (!this.isAvailable(game)) {
+      return;
+    }
+    const gameId = game.id;
+    const round = game.round;
+    this.getDelays().forEach((delay, i) => {
+      const level = i + 1;
+      const time = game.roundStartedAt.getTime() + delay * 1000 - Date.now();
+      if (time < 0 || game.roundStartedAt.getTime() + delay * 1000 >= game.phaseEndsAt.getTime()) {
+        return;
+      }
+      this.container.scheduler.runTimer(this.getTimerName(game, level), async () => {
+        try {
+          const current = await this.db.games.findById(gameId);
+          if (current != null && current.status === Status.TIMER_CURRENT && !current.paused && current.round === round) {
+            this.container.websocket.broadcast<HintServerToClientEvent>(gameId, EventType.HINT, {
+              round,
+              hint: this.getHint(current.deck[round], level),
+              personal: false
+            });
+          }
+        } catch (err) {
+          this.logger.error('Could not reveal hint for game', gameId, ':', err);
+        }
+      }, time);
+    });
+  }
+
+  /**
+   * Stops the scheduled hints of a game.
+   * 
+   * @param game Game
+   */
+  public stop(game: GameInstance): void {
+    for (let level = 1; level <= HintService.MAX_LEVEL; level++) {
+      this.container.scheduler.stopTimer(this.getTimerName(game, level));
+    }
+  }
+
+  /**
+   * Gives a personal hint to a player.
+   * 
+   * The personal hint is the next level after the hints already revealed (to everyone or to the player).
+   * 
+   * @param game Game
+   * @param player Player
+   * @returns Personal hint, or `null` if all hints are already revealed
+   */
+  public givePersonalHint(game: GameInstance, player: PlayerAttributes): Hint {
+    const level = Math.max(this.getLevel(game), player.hintLevel) + 1;
+    if (level > HintService.MAX_LEVEL) {
+      return null;
+    }
+    player.hintLevel = level;
+    player.hints++;
+    return this.getHint(game.deck[game.round], level);
+  }
+
+  /**
+   * Gets the hint revealed to a player in the current round of a game.
+   * 
+   * @param game Game
+   * @param player Player (none for spectators)
+   * @returns Hint, or `null` if no hint is revealed
+   */
+  public getRevealedHint(game: GameInstance, player?: PlayerAttributes): Hint {
+    if (game.status !== Status.TIMER_CURRENT || !this.isAvailable(game)) {
+      return null;
+    }
+    const level = Math.max(this.getLevel(game), player?.hintLevel ?? 0);
+    return level > 0 ? this.getHint(game.deck[game.round], level) : null;
+  }
+
+  /**
+   * Checks if hints are available in a game.
+   * 
+   * Hints reveal the title and the artists, so they are only available when guessing them in free text answer mode.
+   * 
+   * @param game Game
+   * @returns True if hints are available, false otherwise
+   */
+  public isAvailable(game: GameInstance): boolean {
+    return game.settings.answerMode !== 'choice' && game.settings.guess !== 'year' && game.settings.guess !== 'owner';
+  }
+
+  /**
+   * Gets the hint level revealed to everyone in the current round of a game.
+   * 
+   * If the game is paused, the level is computed at the pause date.
+   * 
+   * @param game Game
+   * @returns Hint level (0 if no hint is revealed)
+   */
+  public getLevel(game: GameInstance): number {
+    if (game.status !== Status.TIMER_CURRENT || game.roundStartedAt == null) {
+      return 0;
+    }
+    const elapsed = (game.pausedAt ?? new Date()).getTime() - game.roundStartedAt.getTime();
+    return this.getDelays().filter(delay => delay * 1000 <= elapsed).length;
+  }
+
+  /**
+   * Gets the points multiplier of a player, reduced by the personal hints requested in the current round.
+   * 
+   * @param player Player
+   * @returns Hints multiplier
+   */
+  public getMultiplier(player: PlayerAttributes): number {
+    return Math.max(1 - player.hints * this.container.config.services.hints.penalty, 0);
+  }
+
+  /**
+   * Computes the hint of a track.
+   * 
+   * @param track Track
+   * @param level Hint level
+   * @returns Hint
+   */
+  public getHint(track: TrackAttributes, level: number): Hint {
+    const title = this.container.answers.normalizeTitle(track.name);
+    return {
+      level,
+      title: title.split(' ').filter(word => word.length > 0).map(word => level >= 2 ? word[0] + '_'.repeat(word.length - 1) : '_'.repeat(word.length)).join(' '),
+      artists: level >= 3 ? track.artists.map(artist => this.container.answers.normalizeArtist(artist).split(' ').filter(word => word.length > 0).map(word => word[0].toUpperCase()).join('')) : undefined
+    };
+  }
+
+  /**
+   * Gets the configured hints delays (in seconds after the round start), one for each level.
+   * 
+   * @returns Hints delays
+   */
+  private getDelays(): number[] {
+    return this.container.config.services.hints.delays.slice(0, HintService.MAX_LEVEL);
+  }
+
+  /**
+   * Gets the timer name of a hint of a game.
+   * 
+   * @param game Game
+   * @param level Hint level
+   * @returns Timer name
+   */
+  private getTimerName(game: GameInstance, level: number): string {
+    return `hint-${game.id}-${level}`;
+  }
+}
+
+/**
+ * Hint interface.
+ * 
+ * Letters of the title are masked with underscores, words are separated by spaces. Artists initials are only revealed at the last level.
+ */
+export interface Hint {
+  level: number;
+  title: string;
+  artists?: string[];
+}
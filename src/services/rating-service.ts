@@ -0,0 +1,222 @@
+import _ from 'lodash';
+import { Types } from 'mongoose';
+import { GameInstance } from '../models/game-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+import { Paginated, Pagination } from './statistic-service';
+
+/**
+ * Ratings service class.
+ * 
+ * This service is used to compute users skill ratings and leaderboards.
+ * 
+ * Ratings use a multiplayer Elo system : each player is compared with every other player of the game from the final ranking,
+ * and the rating delta is the average of these pairwise results. Guests (players without account) take part in the
+ * comparisons with the initial rating, but only linked accounts are updated.
+ */
+export default class RatingService extends Service {
+
+  /**
+   * Creates a new ratings service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Updates ratings of users linked to a finished game.
+   * 
+   * Rating deltas are also saved in the game results. Games without linked account, not played or with a single player are not rated.
+   * 
+   * @param game Finished game
+   * @async
+   */
+  public async update(game: GameInstance): Promise<void> {
+    if (game.results == null || game.round < 0 || game.results.players.length < 2) {
+      return;
+    }
+    const linkedPlayers = game.players.filter(player => player.user != null);
+    if (linkedPlayers.length === 0) {
+      return;
+    }
+    const users = await this.db.users.find().where('_id').in(linkedPlayers.map(player => player.user));
+    const ratings = new Map<string, number>(game.results.players.map(entry => {
+      const player = game.players.find(player => player.id === entry.player);
+      const user = users.find(user => player?.user != null && user._id.equals(player.user));
+      return [entry.player, user?.rating ?? this.container.config.services.ratings.initial];
+    }));
+    const deltas = this.computeDeltas(game.results.players.map(entry => ({ id: entry.player, rank: entry.rank, rating: ratings.get(entry.player) })));
+    const date = game.results.finishedAt ?? new Date();
+    for (const player of linkedPlayers) {
+      const user = users.find(user => user._id.equals(player.user));
+      const delta = deltas.get(player.id);
+      if (user == null || delta == null) {
+        continue;
+      }
+      user.rating += delta;
+      user.ratingHistory.push({ game: game.id, delta, rating: user.rating, date });
+      game.results.players.find(entry => entry.player === player.id).ratingDelta = delta;
+      await user.save();
+    }
+  }
+
+  /**
+   * Gets a leaderboard.
+   * 
+   * The all-time leaderboard is sorted by rating, other periods are sorted by the sum of rating deltas in the period.
+   * 
+   * @param period Leaderboard period
+   * @param country Country code to filter users, or `null` for the global leaderboard
+   * @param pagination Pagination
+   * @returns Leaderboard entries and total count
+   * @async
+   */
+  public async getLeaderboard(period: LeaderboardPeriod, country: string, pagination: Pagination): Promise<Paginated<LeaderboardEntry>> {
+    const [result] = await this.db.users.aggregate<{ items: Omit<LeaderboardEntry, 'rank'>[], total: { count: number }[] }>([
+      ...this.leaderboardStages(period, country),
+      { $sort: { score: -1, _id: 1 } },
+      {
+        $facet: {
+          items: [
+            { $skip: pagination.skip },
+            { $limit: pagination.limit },
+            ...this.entryStages()
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+    return {
+      items: result.items.map((entry, i) => ({ rank: pagination.skip + i + 1, ...entry })),
+      total: result.total[0]?.count ?? 0
+    };
+  }
+
+  /**
+   * Gets the position of an user in a leaderboard.
+   * 
+   * @param userId User ID
+   * @param period Leaderboard period
+   * @param country Country code to filter users, or `null` for the global leaderboard
+   * @returns Leaderboard entry of the user, or `null` if the user is not ranked in this leaderboard
+   * @async
+   */
+  public async getPosition(userId: string, period: LeaderboardPeriod, country: string): Promise<LeaderboardEntry> {
+    const id = new Types.ObjectId(userId);
+    const [entry] = await this.db.users.aggregate<Omit<LeaderboardEntry, 'rank'> & { score: number }>([
+      { $match: { _id: id } },
+      ...this.leaderboardStages(period, country),
+      ...this.entryStages()
+    ]);
+    if (entry == null) {
+      return null;
+    }
+    const [better] = await this.db.users.aggregate<{ count: number }>([
+      ...this.leaderboardStages(period, country),
+      { $match: { $or: [{ score: { $gt: entry.score } }, { score: entry.score, _id: { $lt: id } }] } },
+      { $count: 'count' }
+    ]);
+    return { rank: (better?.count ?? 0) + 1, ...entry };
+  }
+
+  /**
+   * Computes rating deltas from a ranking.
+   * 
+   * @param players Ranked players with their current rating
+   * @returns Rounded rating deltas mapped by player ID
+   */
+  private computeDeltas(players: { id: string, rank: number, rating: number }[]): Map<string, number> {
+    const { kFactor } = this.container.config.services.ratings;
+    return new Map(players.map(player => {
+      const opponents = players.filter(other => other.id !== player.id);
+      const total = _.sumBy(opponents, opponent => {
+        const actual = player.rank < opponent.rank ? 1 : (player.rank === opponent.rank ? 0.5 : 0);
+        const expected = 1 / (1 + Math.pow(10, (opponent.rating - player.rating) / 400));
+        return actual - expected;
+      });
+      return [player.id, Math.round(kFactor * total / opponents.length)];
+    }));
+  }
+
+  /**
+   * Creates aggregation stages to compute the leaderboard score of ranked users.
+   * 
+   * Only users with at least one rated game (in the period) are ranked.
+   * 
+   * @param period Leaderboard period
+   * @param country Country code to filter users, or `null` for the global leaderboard
+   * @returns Aggregation stages
+   */
+  private leaderboardStages(period: LeaderboardPeriod, country: string): Record<string, unknown>[] {
+    const stages: Record<string, unknown>[] = [
+      { $match: { 'ratingHistory.0': { $exists: true }, ...(country != null ? { country } : {}) } }
+    ];
+    if (period === 'all') {
+      stages.push({ $addFields: { score: '$rating', games: { $size: '$ratingHistory' } } });
+    } else {
+      const since = new Date(Date.now() - leaderboardPeriodDays[period] * 24 * 60 * 60 * 1000);
+      stages.push(
+        { $addFields: { history: { $filter: { input: '$ratingHistory', cond: { $gte: ['$$this.date', since] } } } } },
+        { $match: { 'history.0': { $exists: true } } },
+        { $addFields: { score: { $sum: '$history.delta' }, games: { $size: '$history' } } }
+      );
+    }
+    return stages;
+  }
+
+  /**
+   * Creates aggregation stages to format leaderboard entries.
+   * 
+   * @returns Aggregation stages
+   */
+  private entryStages(): Record<string, unknown>[] {
+    return [
+      {
+        $project: {
+          _id: 0,
+          user: { id: { $toString: '$_id' }, spotifyId: '$spotifyId', country: '$country' },
+          rating: 1,
+          score: 1,
+          games: 1
+        }
+      }
+    ];
+  }
+}
+
+/**
+ * Duration in days of time-windowed leaderboard periods.
+ */
+const leaderboardPeriodDays: Record<Exclude<LeaderboardPeriod, 'all'>, number> = {
+  weekly: 7,
+  monthly: 30
+};
+
+/**
+ * Leaderboard periods.
+ */
+export const leaderboardPeriods: LeaderboardPeriod[] = ['all', 'weekly', 'monthly'];
+
+/**
+ * Leaderboard period type.
+ */
+export type LeaderboardPeriod = 'all' | 'weekly' | 'monthly';
+
+/**
+ * Leaderboard entry interface.
+ * 
+ * The score is the rating for the all-time leaderboard, and the sum of rating deltas for other periods.
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  user: {
+    id: string;
+    spotifyId: string;
+    country: string;
+  };
+  rating: number;
+  score: number;
+  games: number;
+}
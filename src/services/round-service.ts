@@ -0,0 +1,437 @@
+import { ChoiceAttributes, GameInstance, PlayerAttributes, Status, TrackAttributes } from '../models/game-model';
+import { Hint } from './hint-service';
+import Service from './service';
+import ServiceContainer from './service-container';
+import { EventType, FinishServerToClientEvent, PauseServerToClientEvent, ResumeServerToClientEvent, RoundEndServerToClientEvent, RoundStartServerToClientEvent, ScoreboardServerToClientEvent } from './websocket-service';
+
+/**
+ * Rounds service class.
+ * 
+ * This service is the round engine : it drives started games on the server by switching between the "between tracks" (`TIMER_BETWEEN`)
+ * and "track playing" (`TIMER_CURRENT`) phases, until the game deck runs out.
+ * 
+ * The round engine can be paused in any phase : the remaining time of the phase is restored when it is resumed.
+ */
+export default class RoundService extends Service {
+
+  public static readonly MAX_STEP_ATTEMPTS = 3;
+  public static readonly STEP_RETRY_DELAY = 1000;
+
+  /**
+   * Creates a new rounds service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Starts the round engine of a game.
+   * 
+   * The game is switched to the `TIMER_BETWEEN` phase, the first round starts when this phase ends.
+   * 
+   * @param game Game to start
+   * @async
+   */
+  public async start(game: GameInstance): Promise<void> {
+    game.round = -1;
+    await this.startBetweenPhase(game);
+  }
+
+  /**
+   * Restores the round engine of games in progress.
+   * 
+   * Round engine timers only live in memory, so this method is executed at startup to resume games interrupted by a server restart.
+   * Phases which ended while the server was down end immediately. Paused games stay paused until their author resumes them.
+   * 
+   * @async
+   */
+  public async restore(): Promise<void> {
+    const startedGames = await this.db.games.find().where('status').in([Status.TIMER_BETWEEN, Status.TIMER_CURRENT]);
+    const runningGames = startedGames.filter(game => !game.paused && game.phaseEndsAt != null);
+    runningGames.forEach(game => {
+      if (game.status === Status.TIMER_CURRENT) {
+        this.schedule(game, this.endRound);
+        this.container.hints.schedule(game);
+      } else {
+        this.schedule(game, this.startRound);
+      }
+    });
+    if (runningGames.length > 0) {
+      this.logger.info(runningGames.length, `${runningGames.length === 1 ? 'game has' : 'games have'} been restored`);
+    }
+  }
+
+  /**
+   * Stops the round engine of a game.
+   * 
+   * @param game Game to stop
+   */
+  public stop(game: GameInstance): void {
+    this.container.scheduler.stopTimer(this.getTimerName(game));
+    this.container.hints.stop(game);
+  }
+
+  /**
+   * Pauses the round engine of a game.
+   * 
+   * @param game Game to pause
+   * @async
+   */
+  public async pause(game: GameInstance): Promise<void> {
+    this.stop(game);
+    game.pausedAt = new Date();
+    await game.save();
+    this.container.websocket.broadcast<PauseServerToClientEvent>(game.id, EventType.PAUSE, {
+      game,
+      remainingTime: this.getRemainingTime(game)
+    });
+  }
+
+  /**
+   * Resumes the round engine of a paused game.
+   * 
+   * The current phase ends after its remaining time. The round start date is shifted by the pause duration, so points decay is not affected by the pause.
+   * 
+   * @param game Game to resume
+   * @async
+   */
+  public async resume(game: GameInstance): Promise<void> {
+    const now = Date.now();
+    const pauseDuration = now - game.pausedAt.getTime();
+    game.phaseEndsAt = new Date(now + this.getRemainingTime(game));
+    if (game.roundStartedAt != null) {
+      game.roundStartedAt = new Date(game.roundStartedAt.getTime() + pauseDuration);
+    }
+    game.pausedAt = null;
+    await game.save();
+    if (game.status === Status.TIMER_CURRENT) {
+      this.schedule(game, this.endRound);
+      this.container.hints.schedule(game);
+    } else {
+      this.schedule(game, this.startRound);
+    }
+    this.container.websocket.broadcast<ResumeServerToClientEvent>(game.id, EventType.RESUME, {
+      game,
+      endsAt: game.phaseEndsAt
+    });
+  }
+
+  /**
+   * Gets the remaining time of the current phase of a game.
+   * 
+   * If the game is paused, the remaining time is computed at the pause date.
+   * 
+   * @param game Game
+   * @returns Remaining time (in milliseconds)
+   */
+  public getRemainingTime(game: GameInstance): number {
+    if (game.phaseEndsAt == null) {
+      return 0;
+    }
+    return Math.max(game.phaseEndsAt.getTime() - (game.pausedAt ?? new Date()).getTime(), 0);
+  }
+
+  /**
+   * Starts the next round of a game.
+   * 
+   * If the deck runs out, the game is finished.
+   * 
+   * @param game Game
+   * @async
+   */
+  public async startRound(game: GameInstance): Promise<void> {
+    const round = game.round + 1;
+    if (round >= game.deck.length) {
+      return await this.finish(game);
+    }
+    const now = Date.now();
+    game.round = round;
+    game.status = Status.TIMER_CURRENT;
+    game.roundStartedAt = new Date(now);
+    game.phaseEndsAt = new Date(now + game.settings.trackDuration * 1000);
+    game.players.forEach(player => {
+      player.titleFoundAt = null;
+      player.artistFoundAt = null;
+      player.roundPoints = 0;
+      player.answer = null;
+      player.choice = null;
+      player.year = null;
+      player.yearFoundAt = null;
+      player.pick = null;
+      player.ownerFoundAt = null;
+      player.skipVote = false;
+      player.hints = 0;
+      player.hintLevel = 0;
+    });
+    await game.save();
+    this.schedule(game, this.endRound);
+    this.container.hints.schedule(game);
+    const track = game.deck[round];
+    this.container.websocket.broadcast<RoundStartServerToClientEvent>(game.id, EventType.ROUND_START, {
+      round,
+      total: game.deck.length,
+      endsAt: game.phaseEndsAt,
+      track: { spotifyId: track.spotifyId, uri: track.uri, previewUrl: track.previewUrl, previewOffset: track.previewOffset },
+      choices: track.choices
+    });
+  }
+
+  /**
+   * Ends the current round of a game, records it, reveals the played track and broadcasts the scoreboard.
+   * 
+   * If it was the last round, the game is finished.
+   * 
+   * @param game Game
+   * @param skipped True if the round is skipped : points of the round are revoked and streaks are not updated
+   * @async
+   */
+  public async endRound(game: GameInstance, skipped = false): Promise<void> {
+    const round = game.round;
+    if (skipped) {
+      this.container.scores.revokeRound(game);
+    } else {
+      this.container.scores.endRound(game);
+    }
+    this.record(game, skipped);
+    this.container.websocket.broadcast<RoundEndServerToClientEvent>(game.id, EventType.ROUND_END, {
+      round,
+      total: game.deck.length,
+      track: game.deck[round],
+      skipped
+    });
+    this.container.websocket.broadcast<ScoreboardServerToClientEvent>(game.id, EventType.SCOREBOARD, {
+      round,
+      scoreboard: this.container.scores.getScoreboard(game),
+      teams: this.container.scores.getTeamScoreboard(game)
+    });
+    if (round + 1 >= game.deck.length) {
+      return await this.finish(game);
+    }
+    await this.startBetweenPhase(game);
+  }
+
+  /**
+   * Skips the current round of a game.
+   * 
+   * The round ends early with no points, and the engine moves on to the next track.
+   * 
+   * @param game Game
+   * @async
+   */
+  public async skipRound(game: GameInstance): Promise<void> {
+    this.stop(game);
+    await this.endRound(game, true);
+  }
+
+  /**
+   * Gets the skip votes status of the current round of a game.
+   * 
+   * Only connected players are counted, and the required votes count is computed from the configured ratio.
+   * 
+   * @param game Game
+   * @returns Skip votes status
+   */
+  public getSkipVotes(game: GameInstance): SkipVotes {
+    const connected = game.players.filter(player => this.container.websocket.isConnected(game.id, player.id));
+    return {
+      round: game.round,
+      votes: connected.filter(player => player.skipVote).length,
+      required: Math.max(Math.ceil(connected.length * this.container.config.services.games.skipVoteRatio), 1)
+    };
+  }
+
+  /**
+   * Finishes a game and broadcasts the final ranking (per team in team mode).
+   * 
+   * @param game Game to finish
+   * @async
+   */
+  public async finish(game: GameInstance): Promise<void> {
+    this.stop(game);
+    game.phaseEndsAt = null;
+    await this.container.games.finish(game);
+    this.container.websocket.broadcast<FinishServerToClientEvent>(game.id, EventType.FINISH, {
+      game,
+      scoreboard: this.container.scores.getScoreboard(game),
+      teams: this.container.scores.getTeamScoreboard(game)
+    });
+  }
+
+  /**
+   * Gets the state snapshot of a game for a player.
+   * 
+   * The snapshot is used to resynchronize players who reconnect during a game. Spectators snapshots have no answer status.
+   * 
+   * @param game Game
+   * @param player Player (none for spectators)
+   * @returns State snapshot
+   */
+  public getSnapshot(game: GameInstance, player?: PlayerAttributes): StateSnapshot {
+    const track = game.status === Status.TIMER_CURRENT ? game.deck[game.round] : null;
+    return {
+      status: game.status,
+      round: game.round,
+      total: game.deck.length,
+      serverTime: new Date(),
+      phaseEndsAt: game.phaseEndsAt,
+      pausedAt: game.pausedAt,
+      remainingTime: this.getRemainingTime(game),
+      hint: this.container.hints.getRevealedHint(game, player),
+      track: track != null ? { spotifyId: track.spotifyId, uri: track.uri, previewUrl: track.previewUrl, previewOffset: track.previewOffset } : null,
+      choices: track?.choices,
+      answer: player != null ? {
+        title: player.titleFoundAt != null,
+        artist: player.artistFoundAt != null,
+        choice: player.choice,
+        year: player.year,
+        pick: player.pick,
+        points: player.roundPoints
+      } : null
+    };
+  }
+
+  /**
+   * Records the current round of a game in its history.
+   * 
+   * @param game Game
+   * @param skipped True if the round is skipped
+   */
+  private record(game: GameInstance, skipped: boolean): void {
+    const { roundStartedAt } = game;
+    const latency = (foundAt: Date) => foundAt != null ? foundAt.getTime() - roundStartedAt.getTime() : null;
+    game.rounds.push({
+      index: game.round,
+      track: game.deck[game.round],
+      startedAt: roundStartedAt,
+      endedAt: new Date(),
+      skipped,
+      answers: game.players.map(player => ({
+        player: player.id,
+        name: player.name,
+        answer: player.answer,
+        choice: player.choice,
+        title: player.titleFoundAt != null,
+        artist: player.artistFoundAt != null,
+        titleLatency: latency(player.titleFoundAt),
+        artistLatency: latency(player.artistFoundAt),
+        year: player.year,
+        yearFound: player.yearFoundAt != null,
+        yearLatency: latency(player.yearFoundAt),
+        pick: player.pick,
+        ownerFound: player.ownerFoundAt != null,
+        ownerLatency: latency(player.ownerFoundAt),
+        points: player.roundPoints
+      }))
+    });
+  }
+
+  /**
+   * Starts the "between tracks" phase of a game.
+   * 
+   * @param game Game
+   * @async
+   */
+  private async startBetweenPhase(game: GameInstance): Promise<void> {
+    game.status = Status.TIMER_BETWEEN;
+    game.phaseEndsAt = new Date(Date.now() + game.settings.pauseDuration * 1000);
+    await game.save();
+    this.schedule(game, this.startRound);
+  }
+
+  /**
+   * Schedules the next step of a game when its current phase ends.
+   * 
+   * The game is fetched again when the timer runs, because it may have been updated (or paused) in the meantime. The step is run
+   * exclusively on the game, so it never races with players actions, and only if the game is still in the phase it was scheduled in.
+   * 
+   * If the step fails while the game is still in this phase, it is retried after a short delay. After too many attempts, the game is
+   * finished, so it never stays stuck with no timer.
+   * 
+   * @param game Game
+   * @param step Step to run
+   * @param delay Delay before running the step (in milliseconds), until the end of the current phase by default
+   * @param attempt Attempt number of the step
+   */
+  private schedule(game: GameInstance, step: (game: GameInstance) => Promise<void>, delay = game.phaseEndsAt.getTime() - Date.now(), attempt = 1): void {
+    const gameId = game.id;
+    const code = game.code;
+    const { status, round } = game;
+    const isSamePhase = (current: GameInstance) => current != null && current.inProgress && !current.paused && current.status === status && current.round === round;
+    this.container.scheduler.runTimer(this.getTimerName(game), async () => {
+      try {
+        await this.container.games.runExclusive(code, async () => {
+          const current = await this.db.games.findById(gameId);
+          if (isSamePhase(current)) {
+            await step.call(this, current);
+          }
+        });
+      } catch (err) {
+        this.logger.error('Could not run round engine step for game', gameId, ':', err);
+        try {
+          await this.container.games.runExclusive(code, async () => {
+            const current = await this.db.games.findById(gameId);
+            if (!isSamePhase(current)) {
+              return;
+            }
+            if (attempt < RoundService.MAX_STEP_ATTEMPTS) {
+              this.schedule(current, step, RoundService.STEP_RETRY_DELAY, attempt + 1);
+            } else {
+              await this.finish(current);
+            }
+          });
+        } catch (err) {
+          this.logger.error('Could not recover round engine of game', gameId, ':', err);
+        }
+      }
+    }, delay);
+  }
+
+  /**
+   * Gets the round engine timer name of a game.
+   * 
+   * @param game Game
+   * @returns Timer name
+   */
+  private getTimerName(game: GameInstance): string {
+    return `round-${game.id}`;
+  }
+}
+
+/**
+ * State snapshot interface.
+ * 
+ * `answer` is the answer status of the player for the current round (`null` for spectators).
+ * `remainingTime` is the remaining time of the current phase (in milliseconds), frozen while the game is paused.
+ * `hint` is the hint revealed to the player (or to everyone for spectators), `null` if there is none.
+ */
+export interface StateSnapshot {
+  status: Status;
+  round: number;
+  total: number;
+  serverTime: Date;
+  phaseEndsAt: Date;
+  pausedAt: Date;
+  remainingTime: number;
+  hint: Hint;
+  track: Pick<TrackAttributes, 'spotifyId' | 'uri' | 'previewUrl' | 'previewOffset'>;
+  choices?: ChoiceAttributes[];
+  answer: {
+    title: boolean;
+    artist: boolean;
+    choice: number;
+    year: number;
+    pick: string;
+    points: number;
+  };
+}
+
+/**
+ * Skip votes interface.
+ */
+export interface SkipVotes {
+  round: number;
+  votes: number;
+  required: number;
+}
@@ -10,6 +10,7 @@ import ServiceContainer from './service-container';
 export default class SchedulerService extends Service {
 
   private tasks: Map<string, NodeJS.Timeout>;
+  private timers: Map<string, NodeJS.Timeout>;
 
   /**
    * Creates a new scheduler service.
@@ -19,6 +20,7 @@ export default class SchedulerService extends Service {
   public constructor(container: ServiceContainer) {
     super(container);
     this.tasks = new Map<string, NodeJS.Timeout>();
+    this.timers = new Map<string, NodeJS.Timeout>();
   }
 
   /**
@@ -50,21 +52,45 @@ export default class SchedulerService extends Service {
   /**
    * Runs a timer.
    * 
+   * If a timer with the same name is already running, it is replaced.
+   * 
+   * @param name Timer name (used to stop the timer)
    * @param fc Function to run
    * @param time Time to wait before run timer in milliseconds
    */
-  public runTimer(fc: () => void, time: number): void {
-    setTimeout(fc, time);
+  public runTimer(name: string, fc: () => void, time: number): void {
+    this.stopTimer(name);
+    this.timers.set(name, setTimeout(() => {
+      this.timers.delete(name);
+      fc();
+    }, time));
+  }
+
+  /**
+   * Stops a timer before it runs.
+   * 
+   * @param name Timer name to stop
+   */
+  public stopTimer(name: string): void {
+    const timer = this.timers.get(name);
+    if (timer != null) {
+      this.timers.delete(name);
+      clearTimeout(timer);
+    }
   }
 
   /**
-   * Stops all running tasks.
+   * Stops all running tasks and timers.
    */
   public stopAllTasks(): void {
     for (const task of this.tasks) {
       clearInterval(task[1]);
     }
     this.tasks.clear();
+    for (const timer of this.timers) {
+      clearTimeout(timer[1]);
+    }
+    this.timers.clear();
   }
 }
 
@@ -0,0 +1,233 @@
+import { GameInstance, PlayerAttributes, TeamAttributes } from '../models/game-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Scores service class.
+ * 
+ * This service is used to compute players scores :
+ *  - Title and artist are scored separately
+ *  - In "guess the year" mode, points scale with how close the guessed year is to the release year
+ *  - In social mode, points for finding the owner of a track are divided between the owners the player could pick
+ *  - Points decay with the time the player took to answer
+ *  - Points are multiplied by the player streak (consecutive rounds where the player found something)
+ *  - Points are reduced by the personal hints requested by the player in the round
+ *  - In team mode, points are also credited to the team of the player
+ */
+export default class ScoreService extends Service {
+
+  /**
+   * Creates a new scores service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Awards points to a player for the found parts of the current round.
+   * 
+   * @param game Game
+   * @param player Player to award
+   * @param parts Found parts
+   * @param foundAt Date when parts have been found
+   * @returns Awarded points
+   */
+  public award(game: GameInstance, player: PlayerAttributes, parts: FoundParts, foundAt: Date): number {
+    const { titlePoints, artistPoints } = this.container.config.services.scores;
+    const latency = foundAt.getTime() - game.roundStartedAt.getTime();
+    const duration = game.phaseEndsAt.getTime() - game.roundStartedAt.getTime();
+    let points = 0;
+    if (parts.title) {
+      points += this.computePoints(titlePoints, latency, duration);
+    }
+    if (parts.artist) {
+      points += this.computePoints(artistPoints, latency, duration);
+    }
+    return this.credit(game, player, points);
+  }
+
+  /**
+   * Awards points to a player for a guessed year in the current round.
+   * 
+   * Points decrease linearly with the difference between the guessed year and the release year, and no point is awarded beyond the configured range.
+   * 
+   * @param game Game
+   * @param player Player to award
+   * @param difference Difference (in years) with the release year
+   * @param foundAt Date when the year has been guessed
+   * @returns Awarded points
+   */
+  public awardYear(game: GameInstance, player: PlayerAttributes, difference: number, foundAt: Date): number {
+    const { yearPoints, yearRange } = this.container.config.services.scores;
+    if (difference > yearRange) {
+      return 0;
+    }
+    const latency = foundAt.getTime() - game.roundStartedAt.getTime();
+    const duration = game.phaseEndsAt.getTime() - game.roundStartedAt.getTime();
+    return this.credit(game, player, this.computePoints(yearPoints * (1 - difference / (yearRange + 1)), latency, duration));
+  }
+
+  /**
+   * Awards points to a player who found the owner of the track in the current round, in social mode.
+   * 
+   * A track shared by several players is easier to guess, so points are divided between the owners the player could pick.
+   * 
+   * @param game Game
+   * @param player Player to award
+   * @param candidates Count of owners the player could pick (owners other than the player)
+   * @param foundAt Date when the owner has been found
+   * @returns Awarded points
+   */
+  public awardOwner(game: GameInstance, player: PlayerAttributes, candidates: number, foundAt: Date): number {
+    const latency = foundAt.getTime() - game.roundStartedAt.getTime();
+    const duration = game.phaseEndsAt.getTime() - game.roundStartedAt.getTime();
+    return this.credit(game, player, this.computePoints(this.container.config.services.scores.ownerPoints / Math.max(candidates, 1), latency, duration));
+  }
+
+  /**
+   * Revokes points awarded to players (and their teams) in the current round.
+   * 
+   * @param game Game
+   */
+  public revokeRound(game: GameInstance): void {
+    game.players.forEach(player => {
+      player.score -= player.roundPoints;
+      const team = this.container.teams.getTeam(game, player.team);
+      if (game.settings.teamMode && team != null) {
+        team.score -= player.roundPoints;
+      }
+      player.roundPoints = 0;
+    });
+  }
+
+  /**
+   * Updates players streaks at the end of the current round.
+   * 
+   * The streak of a player is increased if the title, the artist, the year or the owner has been found, otherwise it is reset.
+   * 
+   * @param game Game
+   */
+  public endRound(game: GameInstance): void {
+    game.players.forEach(player => {
+      const found = player.titleFoundAt != null || player.artistFoundAt != null || player.yearFoundAt != null || player.ownerFoundAt != null;
+      player.streak = found ? player.streak + 1 : 0;
+    });
+  }
+
+  /**
+   * Gets the ranked scoreboard of a game.
+   * 
+   * Players with the same score share the same rank.
+   * 
+   * @param game Game
+   * @returns Scoreboard
+   */
+  public getScoreboard(game: GameInstance): ScoreboardEntry[] {
+    const sorted = [...game.players].sort((a, b) => b.score - a.score);
+    return sorted.map(player => ({
+      rank: sorted.findIndex(other => other.score === player.score) + 1,
+      player: { id: player.id, name: player.name },
+      score: player.score,
+      roundPoints: player.roundPoints,
+      streak: player.streak
+    }));
+  }
+
+  /**
+   * Gets the ranked team scoreboard of a game.
+   * 
+   * Teams with the same score share the same rank.
+   * 
+   * @param game Game
+   * @returns Team scoreboard, or `undefined` if the game is not in team mode
+   */
+  public getTeamScoreboard(game: GameInstance): TeamScoreboardEntry[] {
+    if (!game.settings.teamMode) {
+      return undefined;
+    }
+    const sorted = [...game.teams].sort((a, b) => b.score - a.score);
+    return sorted.map(team => ({
+      rank: sorted.findIndex(other => other.score === team.score) + 1,
+      team: { id: team.id, name: team.name, color: team.color },
+      score: team.score,
+      players: this.container.teams.getMembers(game, team).map(player => player.id)
+    }));
+  }
+
+  /**
+   * Gets the streak multiplier of a player.
+   * 
+   * @param player Player
+   * @returns Streak multiplier
+   */
+  public getStreakMultiplier(player: PlayerAttributes): number {
+    const { streakBonus, maxStreakMultiplier } = this.container.config.services.scores;
+    return Math.min(1 + player.streak * streakBonus, maxStreakMultiplier);
+  }
+
+  /**
+   * Credits points to a player (and the player's team in team mode), with the streak and hints multipliers.
+   * 
+   * @param game Game
+   * @param player Player to credit
+   * @param points Base points
+   * @returns Credited points
+   */
+  private credit(game: GameInstance, player: PlayerAttributes, points: number): number {
+    points = Math.round(points * this.getStreakMultiplier(player) * this.container.hints.getMultiplier(player));
+    player.score += points;
+    player.roundPoints += points;
+    const team = this.container.teams.getTeam(game, player.team);
+    if (game.settings.teamMode && team != null) {
+      team.score += points;
+    }
+    return points;
+  }
+
+  /**
+   * Computes points decayed with the answer latency.
+   * 
+   * Points decrease linearly from the maximum points (instant answer) to the minimum points (answer at the end of the round).
+   * 
+   * @param maxPoints Maximum points
+   * @param latency Answer latency (in milliseconds)
+   * @param duration Round duration (in milliseconds)
+   * @returns Points
+   */
+  private computePoints(maxPoints: number, latency: number, duration: number): number {
+    const { minPointsRatio } = this.container.config.services.scores;
+    const elapsedRatio = duration > 0 ? Math.min(Math.max(latency / duration, 0), 1) : 0;
+    return maxPoints * (1 - (1 - minPointsRatio) * elapsedRatio);
+  }
+}
+
+/**
+ * Found parts interface.
+ */
+export interface FoundParts {
+  title: boolean;
+  artist: boolean;
+}
+
+/**
+ * Scoreboard entry interface.
+ */
+export interface ScoreboardEntry {
+  rank: number;
+  player: Pick<PlayerAttributes, 'id' | 'name'>;
+  score: number;
+  roundPoints: number;
+  streak: number;
+}
+
+/**
+ * Team scoreboard entry interface.
+ */
+export interface TeamScoreboardEntry {
+  rank: number;
+  team: Pick<TeamAttributes, 'id' | 'name' | 'color'>;
+  score: number;
+  players: string[];
+}
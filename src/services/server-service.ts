@@ -42,6 +42,9 @@ export default class ServerService extends Service {
     // Fetching used codes
     this.container.games.fetchUsedCodes();
 
+    // Restoring round engines of games in progress
+    await this.container.rounds.restore();
+
     // Starting games schedulers
     this.container.games.startSchedulers();
   }
@@ -1,5 +1,8 @@
+import AchievementService from './achievement-service';
+import AnswerService from './answer-service';
 import AuthenticationService from './authentication-service';
 import CacheService from './cache-service';
+import ChatService from './chat-service';
 import ConfigurationService from './configuration-service';
 import ControllerService from './controller-service';
 import CryptoService from './crypto-service';
@@ -8,10 +11,16 @@ import EnvironmentService from './environment-service';
 import ErrorService from './error-service';
 import ExpressService from './express-service';
 import GameService from './game-service';
+import HintService from './hint-service';
 import LogService from './log-service';
+import RoundService from './round-service';
 import SchedulerService from './scheduler-service';
+import ScoreService from './score-service';
 import ServerService from './server-service';
+import RatingService from './rating-service';
 import SpotifyService from './spotify-service';
+import StatisticService from './statistic-service';
+import TeamService from './team-service';
 import TokenService from './token-service';
 import WebsocketService from './websocket-service';
 
@@ -55,6 +64,15 @@ export default class ServiceContainer {
   private _websocket: WebsocketService;
   private _spotify: SpotifyService;
   private _games: GameService;
+  private _rounds: RoundService;
+  private _answers: AnswerService;
+  private _scores: ScoreService;
+  private _teams: TeamService;
+  private _stats: StatisticService;
+  private _ratings: RatingService;
+  private _achievements: AchievementService;
+  private _chat: ChatService;
+  private _hints: HintService;
 
   /**
    * Creates a new services container.
@@ -75,6 +93,16 @@ export default class ServiceContainer {
     this._scheduler = null;
     this._websocket = null;
     this._spotify = null;
+    this._games = null;
+    this._rounds = null;
+    this._answers = null;
+    this._scores = null;
+    this._teams = null;
+    this._stats = null;
+    this._ratings = null;
+    this._achievements = null;
+    this._chat = null;
+    this._hints = null;
     this.env.load(); // Autoload environment
   }
 
@@ -205,4 +233,76 @@ export default class ServiceContainer {
     }
     return this._games;
   }
+
+  public get rounds(): RoundService {
+    if (!this._rounds) {
+      this._rounds = new RoundService(this);
+      this.logger.info('Loaded rounds service');
+    }
+    return this._rounds;
+  }
+
+  public get answers(): AnswerService {
+    if (!this._answers) {
+      this._answers = new AnswerService(this);
+      this.logger.info('Loaded answers service');
+    }
+    return this._answers;
+  }
+
+  public get scores(): ScoreService {
+    if (!this._scores) {
+      this._scores = new ScoreService(this);
+      this.logger.info('Loaded scores service');
+    }
+    return this._scores;
+  }
+
+  public get teams(): TeamService {
+    if (!this._teams) {
+      this._teams = new TeamService(this);
+      this.logger.info('Loaded teams service');
+    }
+    return this._teams;
+  }
+
+  public get stats(): StatisticService {
+    if (!this._stats) {
+      this._stats = new StatisticService(this);
+      this.logger.info('Loaded statistics service');
+    }
+    return this._stats;
+  }
+
+  public get ratings(): RatingService {
+    if (!this._ratings) {
+      this._ratings = new RatingService(this);
+      this.logger.info('Loaded ratings service');
+    }
+    return this._ratings;
+  }
+
+  public get achievements(): AchievementService {
+    if (!this._achievements) {
+      this._achievements = new AchievementService(this);
+      this.logger.info('Loaded achievements service');
+    }
+    return this._achievements;
+  }
+
+  public get chat(): ChatService {
+    if (!this._chat) {
+      this._chat = new ChatService(this);
+      this.logger.info('Loaded chat service');
+    }
+    return this._chat;
+  }
+
+  public get hints(): HintService {
+    if (!this._hints) {
+      this._hints = new HintService(this);
+      this.logger.info('Loaded hints service');
+    }
+    return this._hints;
+  }
 }
@@ -89,6 +89,28 @@ export default class SpotifyService extends Service {
     return data.tracks;
   }
 
+  /**
+   * Get all tracks of a playlist.
+   * 
+   * Spotify paging is followed until all pages have been fetched.
+   * 
+   * @param token Token of the fetcher
+   * @param playlistId Playlist ID
+   * @param limit Limit of tracks per page
+   * @returns Playlist tracks
+   */
+  public async getPlaylistTracks(token: string, playlistId: string, limit: number = 100): Promise<PlaylistTrackData[]> {
+    const items: PlaylistTrackData[] = [];
+    let offset = 0;
+    let data: PlaylistTracksResponse;
+    do {
+      data = await this.fetch<PlaylistTracksResponse>(`${this.container.config.services.spotify.endpoints.playlists}/${encodeURIComponent(playlistId)}/tracks?market=from_token&limit=${limit}&offset=${offset}`, token);
+      items.push(...data.items);
+      offset += limit;
+    } while (data.next != null);
+    return items;
+  }
+
   /**
    * Fetches the Spotify API.
    * 
@@ -133,6 +155,15 @@ export interface TracksResponse extends Response {
   tracks: TrackData[];
 }
 
+/**
+ * Spotify playlist tracks response interface.
+ */
+export interface PlaylistTracksResponse extends Response {
+  items: PlaylistTrackData[];
+  total: number;
+  next: string | null;
+}
+
 /**
  * Spotify TOP artists response interface.
  */
@@ -193,6 +224,8 @@ export interface ArtistData {
  * Spotify track data interface.
  */
 export interface TrackData {
+  id: string;
+  uri: string;
   href: string;
   name: string;
   artists: [{
@@ -206,12 +239,28 @@ export interface TrackData {
       height: number;
     }];
     release_date: string;
+    release_date_precision: 'year' | 'month' | 'day';
   };
+  is_playable?: boolean;
+  preview_url: string | null;
+  duration_ms: number;
+  popularity: number;
   external_urls: {
     spotify: string;
   };
 }
 
+/**
+ * Spotify playlist track data interface.
+ * 
+ * The track is `null` when it is no longer available.
+ */
+export interface PlaylistTrackData {
+  added_at: string;
+  is_local: boolean;
+  track: TrackData | null;
+}
+
 /**
  * Spotify playlist data interface.
  */
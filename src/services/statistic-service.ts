@@ -0,0 +1,219 @@
+import { Types } from 'mongoose';
+import { AnswerMode, GuessType, Status } from '../models/game-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Statistics service class.
+ * 
+ * This service is used to compute users history and statistics from finished games with MongoDB aggregation pipelines.
+ */
+export default class StatisticService extends Service {
+
+  /**
+   * Creates a new statistics service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Gets the finished games of an user, most recent first.
+   * 
+   * @param userId User ID
+   * @param pagination Pagination
+   * @returns User games and total count
+   * @async
+   */
+  public async getGames(userId: string, pagination: Pagination): Promise<Paginated<UserGame>> {
+    const [result] = await this.db.games.aggregate<{ items: UserGame[], total: { count: number }[] }>([
+      ...this.userGamesStages(userId),
+      { $sort: { 'results.finishedAt': -1 } },
+      {
+        $facet: {
+          items: [
+            { $skip: pagination.skip },
+            { $limit: pagination.limit },
+            {
+              $project: {
+                _id: 0,
+                id: { $toString: '$_id' },
+                playlistId: 1,
+                settings: 1,
+                createdAt: 1,
+                finishedAt: '$results.finishedAt',
+                players: { $size: '$players' },
+                rank: '$result.rank',
+                score: '$result.score'
+              }
+            }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+    return { items: result.items, total: result.total[0]?.count ?? 0 };
+  }
+
+  /**
+   * Gets the statistics of an user.
+   * 
+   * Most found artists are paginated.
+   * 
+   * @param userId User ID
+   * @param pagination Pagination of most found artists
+   * @returns User statistics and total count of found artists
+   * @async
+   */
+  public async getStats(userId: string, pagination: Pagination): Promise<{ stats: UserStats, total: number }> {
+    const answerStages = [
+      { $unwind: '$rounds' },
+      { $unwind: '$rounds.answers' },
+      { $match: { $expr: { $eq: ['$rounds.answers.player', { $toString: '$player._id' }] } } }
+    ];
+    const foundStages = [
+      ...answerStages,
+      { $match: { $or: [{ 'rounds.answers.title': true }, { 'rounds.answers.artist': true }, { 'rounds.answers.yearFound': true }, { 'rounds.answers.ownerFound': true }] } }
+    ];
+    const [result] = await this.db.games.aggregate([
+      ...this.userGamesStages(userId),
+      {
+        $facet: {
+          games: [
+            {
+              $group: {
+                _id: null,
+                played: { $sum: 1 },
+                won: { $sum: { $cond: [{ $eq: ['$result.rank', 1] }, 1, 0] } },
+                averageRank: { $avg: '$result.rank' },
+                averageScore: { $avg: '$result.score' },
+                playlists: { $addToSet: '$playlistId' }
+              }
+            }
+          ],
+          answerTime: [
+            ...foundStages,
+            { $group: { _id: null, average: { $avg: { $min: ['$rounds.answers.titleLatency', '$rounds.answers.artistLatency', '$rounds.answers.yearLatency', '$rounds.answers.ownerLatency'] } } } }
+          ],
+          accuracy: [
+            ...answerStages,
+            {
+              $group: {
+                _id: { guess: '$settings.guess', mode: '$settings.answerMode' },
+                answers: { $sum: 1 },
+                found: { $sum: { $cond: [{ $or: ['$rounds.answers.title', '$rounds.answers.artist', '$rounds.answers.yearFound', '$rounds.answers.ownerFound'] }, 1, 0] } }
+              }
+            },
+            { $project: { _id: 0, guess: '$_id.guess', mode: '$_id.mode', answers: 1, found: 1, accuracy: { $divide: ['$found', '$answers'] } } },
+            { $sort: { guess: 1, mode: 1 } }
+          ],
+          artists: [
+            ...foundStages,
+            { $unwind: '$rounds.track.artists' },
+            { $group: { _id: '$rounds.track.artists', found: { $sum: 1 } } },
+            { $sort: { found: -1, _id: 1 } },
+            { $skip: pagination.skip },
+            { $limit: pagination.limit },
+            { $project: { _id: 0, name: '$_id', found: 1 } }
+          ],
+          artistsTotal: [
+            ...foundStages,
+            { $unwind: '$rounds.track.artists' },
+            { $group: { _id: '$rounds.track.artists' } },
+            { $count: 'count' }
+          ]
+        }
+      }
+    ]);
+    const games = result.games[0];
+    return {
+      stats: {
+        played: games?.played ?? 0,
+        won: games?.won ?? 0,
+        playlists: games?.playlists.length ?? 0,
+        averageRank: games?.averageRank ?? null,
+        averageScore: games?.averageScore ?? null,
+        averageAnswerTime: result.answerTime[0]?.average ?? null,
+        accuracy: result.accuracy,
+        artists: result.artists
+      },
+      total: result.artistsTotal[0]?.count ?? 0
+    };
+  }
+
+  /**
+   * Creates aggregation stages to match finished games of an user.
+   * 
+   * Games finished before their first round are not matched.
+   * 
+   * Matched games have two additional fields : `player` (the player linked to the user) and `result` (the result of this player).
+   * 
+   * @param userId User ID
+   * @returns Aggregation stages
+   */
+  private userGamesStages(userId: string): Record<string, unknown>[] {
+    const user = new Types.ObjectId(userId);
+    return [
+      { $match: { status: Status.FINISHED, 'players.user': user, 'rounds.0': { $exists: true } } },
+      { $addFields: { player: { $arrayElemAt: [{ $filter: { input: '$players', cond: { $eq: ['$$this.user', user] } } }, 0] } } },
+      { $addFields: { result: { $arrayElemAt: [{ $filter: { input: '$results.players', cond: { $eq: ['$$this.player', { $toString: '$player._id' }] } } }, 0] } } }
+    ];
+  }
+}
+
+/**
+ * Pagination interface.
+ */
+export interface Pagination {
+  page: number;
+  limit: number;
+  skip: number;
+}
+
+/**
+ * Paginated result interface.
+ */
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+}
+
+/**
+ * User game interface.
+ */
+export interface UserGame {
+  id: string;
+  playlistId: string;
+  createdAt: Date;
+  finishedAt: Date;
+  players: number;
+  rank: number;
+  score: number;
+}
+
+/**
+ * User statistics interface.
+ * 
+ * The average answer time is in milliseconds. Accuracy is computed for each guess type and answer mode.
+ */
+export interface UserStats {
+  played: number;
+  won: number;
+  playlists: number;
+  averageRank: number;
+  averageScore: number;
+  averageAnswerTime: number;
+  accuracy: {
+    guess: GuessType;
+    mode: AnswerMode;
+    answers: number;
+    found: number;
+    accuracy: number;
+  }[];
+  artists: {
+    name: string;
+    found: number;
+  }[];
+}
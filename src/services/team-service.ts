@@ -0,0 +1,85 @@
+import _ from 'lodash';
+import { GameInstance, TeamAttributes } from '../models/game-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Teams service class.
+ * 
+ * This service is used to manage teams of games in team mode.
+ */
+export default class TeamService extends Service {
+
+  /**
+   * Creates a new teams service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Replaces the teams of a game.
+   * 
+   * Players are unassigned because previous teams no longer exist.
+   * 
+   * @param game Game
+   * @param teams New teams
+   */
+  public setTeams(game: GameInstance, teams: Pick<TeamAttributes, 'name' | 'color'>[]): void {
+    game.teams = (teams || []).map(team => ({ name: team.name, color: team.color }));
+    game.players.forEach(player => player.team = null);
+  }
+
+  /**
+   * Prepares teams of a game before it starts.
+   * 
+   * If the game has no team, default teams are created. Then unassigned players are assigned to the smallest teams.
+   * 
+   * @param game Game
+   */
+  public prepare(game: GameInstance): void {
+    if (game.teams.length === 0) {
+      this.setTeams(game, this.container.config.services.games.defaultTeams);
+    }
+    for (const player of game.players.filter(player => player.team == null)) {
+      player.team = _.minBy(game.teams, team => this.getMembers(game, team).length).id;
+    }
+  }
+
+  /**
+   * Checks if teams of a game are balanced.
+   * 
+   * Teams are balanced if they all have one player minimum, and if size differences do not exceed the configured maximum gap.
+   * 
+   * @param game Game
+   * @returns True if teams are balanced, false otherwise
+   */
+  public isBalanced(game: GameInstance): boolean {
+    const sizes = game.teams.map(team => this.getMembers(game, team).length);
+    return sizes.length > 0 && _.min(sizes) >= 1 && _.max(sizes) - _.min(sizes) <= this.container.config.services.games.maxTeamSizeGap;
+  }
+
+  /**
+   * Gets the team of a player.
+   * 
+   * @param game Game
+   * @param teamId Team ID
+   * @returns Team, or `undefined` if not found
+   */
+  public getTeam(game: GameInstance, teamId: string): TeamAttributes {
+    return teamId != null ? game.teams.find(team => team.id === teamId) : undefined;
+  }
+
+  /**
+   * Gets members of a team.
+   * 
+   * @param game Game
+   * @param team Team
+   * @returns Players of the team
+   */
+  public getMembers(game: GameInstance, team: TeamAttributes): GameInstance['players'] {
+    return game.players.filter(player => player.team === team.id);
+  }
+}
@@ -79,7 +79,20 @@ export interface RefreshTokenData extends TokenData {
   userId?: string;
 }
 
+/**
+ * Game token data.
+ * 
+ * The fingerprint identifies the device of the player across games, it is used to ban players.
+ * Spectator tokens have no player ID. Tokens without role are player tokens.
+ */
 export interface GameTokenData extends TokenData {
   code: string;
   playerId: string;
+  fingerprint: string;
+  role?: GameRole;
 }
+
+/**
+ * Game role type.
+ */
+export type GameRole = 'player' | 'spectator';
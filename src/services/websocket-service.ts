@@ -1,8 +1,15 @@
 import _ from 'lodash';
 import { Error as MongooseError } from 'mongoose';
 import { Server, Socket } from 'socket.io';
-import { GameInstance, PlayerAttributes, Status } from '../models/game-model';
+import { ChoiceAttributes, GameInstance, PlayerAttributes, SettingsAttributes, Status, TeamAttributes, TrackAttributes } from '../models/game-model';
+import { Achievement } from './achievement-service';
+import { AnswerEvaluation, Verdict } from './answer-service';
+import { ChatMessage } from './chat-service';
 import { APIErrorResponse } from './error-service';
+import { LobbyState } from './game-service';
+import { Hint } from './hint-service';
+import { SkipVotes, StateSnapshot } from './round-service';
+import { ScoreboardEntry, TeamScoreboardEntry } from './score-service';
 import Service from './service';
 import ServiceContainer from './service-container';
 import { GameTokenData } from './token-service';
@@ -15,14 +22,47 @@ import { GameTokenData } from './token-service';
  * Webocket workflow :
  *  - Game registration :
  *    - The author creates a new game, gets game code and player token (API)
- *    - A player joins game with the code and gets player token (`JOIN` event)
+ *    - A player joins game with the code (and optionally an access token to link an user account) and gets player token (`JOIN` event)
+ *    - A spectator joins game (even in progress) with the code and gets spectator token (`SPECTATE` event). Spectators receive
+ *      game room broadcasts but can not perform player actions
  *  - Game connection :
- *    - With game code and player token, players (and the author) connects their websocket to the game room (`CONNECT` event)
+ *    - With game code and player (or spectator) token, players (and the author) connects their websocket to the game room (`CONNECT` event)
+ *    - When connecting (or reconnecting after a drop), the socket receives a snapshot of the game state (`SYNC` event)
+ *    - While the game is not started, the author can update the game settings (`SETTINGS` event), which resets the ready check
+ *    - While the game is not started, players toggle their ready flag and the game room receives the lobby state (`READY` event)
+ *    - In team mode, the author can update the teams (`TEAMS` event) and players pick their team (`TEAM` event). Unassigned players
+ *      are assigned when the game starts, and teams must be balanced
+ *    - The author can give the authorship to another player (`AUTHOR` event). When the author leaves (or stays disconnected for the
+ *      configured delay), the authorship is given to the longest-connected remaining player. The game is finished when the last player leaves
+ *    - The author can kick (`KICK` event) or ban (`BAN` event) a player, who is told why (`KICKED` event)
+ *    - Connected players chat in the game room (`CHAT` event). While a track is playing, messages containing the answer are only
+ *      sent back to their sender. The last messages are sent with the game state snapshot
+ *  - Game progress :
+ *    - The author starts the game with a playlist, from which the round deck is built (`START` event). All connected players must be
+ *      ready, otherwise the author can force the start : a countdown begins (broadcasted with the lobby state) and the author can start
+ *      when it ends. A player joining the game cancels the countdown. The playlist must exist, be readable by the author and have
+ *      enough playable tracks for the rounds count, otherwise the game is not started
+ *    - The server drives rounds and broadcasts them to the game room (`ROUND_START` and `ROUND_END` events). Each round carries the
+ *      track preview with a random start offset, so players without Spotify Premium can play it
+ *    - During a round, players submit answers (`GUESS` event) and the game room is told who found the answer (`FOUND` event)
+ *      Answers are free texts, or choice indexes in multiple-choice answer mode (choices are sent with the `ROUND_START` event)
+ *      In "guess the year" mode, answers are release years, and points scale with how close the guess is
+ *      In social mode, the deck is built from the Spotify top tracks of the players, and answers are the players whose top track is
+ *      playing. The owners are revealed with the `ROUND_END` event. Players send their Spotify token with the `JOIN`, `READY` or `START`
+ *      event : it must belong to their linked account, and it is only kept in memory
+ *    - At the end of each round, the ranked scoreboard is broadcasted (`SCOREBOARD` event)
+ *    - During a round, hints are progressively revealed to the game room (`HINT` event). A player can request a personal hint
+ *      (`HINT` event), which reduces the player's maximum points for the round
+ *    - During a round, players vote to skip the track (`SKIP_VOTE` event) and the game room receives the votes count. When enough
+ *      connected players have voted (or when the author forces it), the round ends early with no points
+ *    - The author can pause (`PAUSE` event) and resume (`RESUME` event) the game in any phase. Answers are rejected while the game is paused
+ *    - When the deck runs out, the game is finished (`FINISH` event)
+ *    - Players linked to an user account are told about their new unlocked achievements (`ACHIEVEMENT` event)
  */
 export default class WebsocketService extends Service {
 
   private srv: Server;
-  private registeredSockets: { socketId: string, room: string }[];
+  private registeredSockets: { socketId: string, room: string, playerId: string }[];
 
   /**
    * Creates a new websocket service.
@@ -63,6 +103,46 @@ export default class WebsocketService extends Service {
     }
   }
 
+  /**
+   * Broadcasts an event to a game room.
+   * 
+   * @param room Room to broadcast
+   * @param type Event type
+   * @param event Event to broadcast
+   */
+  public broadcast<E extends Event>(room: string, type: EventType, event: E): void {
+    if (this.srv) {
+      this.srv.in(room).emit(type, event);
+    }
+  }
+
+  /**
+   * Emits an event to the sockets of a player in a game room.
+   * 
+   * @param room Game room
+   * @param playerId Player ID
+   * @param type Event type
+   * @param event Event to emit
+   */
+  public emitToPlayer<E extends Event>(room: string, playerId: string, type: EventType, event: E): void {
+    if (this.srv) {
+      for (const registered of this.registeredSockets.filter(registered => registered.room === room && registered.playerId === playerId)) {
+        this.srv.sockets.sockets.get(registered.socketId)?.emit(type, event);
+      }
+    }
+  }
+
+  /**
+   * Checks if a player is connected to a game room.
+   * 
+   * @param room Game room
+   * @param playerId Player ID
+   * @returns True if a socket of the player is registered in the room, false otherwise
+   */
+  public isConnected(room: string, playerId: string): boolean {
+    return this.registeredSockets.some(registered => registered.room === room && registered.playerId === playerId);
+  }
+
   /**
    * Creates events.
    */
@@ -72,7 +152,11 @@ export default class WebsocketService extends Service {
 
       // When the socket disconnects
       socket.on('disconnect', () => {
+        const registered = this.registeredSockets.find(registered => registered.socketId === socket.id);
         this.unregister(socket);
+        if (registered?.playerId != null && !this.isConnected(registered.room, registered.playerId)) {
+          this.scheduleAuthorshipTransfer(registered.room, registered.playerId);
+        }
         this.logger.info(`Websocket disconnected : ${socket.handshake.address}`);
       });
 
@@ -87,29 +171,54 @@ export default class WebsocketService extends Service {
       // When the socket wants to join a game
       socket.on(EventType.JOIN, async (data: JoinClientToServerEvent) => {
         try {
-          const game = await this.db.games.findOne().where('code').equals(data.code);
-          if (game == null) {
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid code' }) as ErrorEvent);
-          }
-          if (!game.starting) {
-            let error_description;
-            switch (game.status) {
-              case Status.TIMER_BETWEEN:
-              case Status.TIMER_CURRENT:
-                error_description = 'Game in progress';
-                break;
-              case Status.FINISHED:
-                error_description = 'Game finished';
-                break;
-              default:
-                error_description: 'Game not accessible';
-                break;
-            }
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description }) as ErrorEvent);
-          }
-          game.players.push({ name: data.name });
-          await game.save();
-          return socket.emit(EventType.JOIN, { token: await game.generateToken(_.last(game.players).id) } as JoinServerToClientEvent);
+          await this.container.games.runExclusive(data.code, async () => {
+            const game = await this.db.games.findOne().where('code').equals(data.code);
+            if (game == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid code' }) as ErrorEvent);
+            }
+            if (!game.starting) {
+              let error_description;
+              switch (game.status) {
+                case Status.TIMER_BETWEEN:
+                case Status.TIMER_CURRENT:
+                  error_description = 'Game in progress';
+                  break;
+                case Status.FINISHED:
+                  error_description = 'Game finished';
+                  break;
+                default:
+                  error_description: 'Game not accessible';
+                  break;
+              }
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description }) as ErrorEvent);
+            }
+            const fingerprint = await this.getFingerprint(data.token);
+            if (this.container.games.isBanned(game, data.name, fingerprint)) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Banned from this game' }) as ErrorEvent);
+            }
+            const user = await this.container.auth.authenticate(data.accessToken);
+            if (user != null && game.players.some(player => player.user?.toString() === user.id)) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Account already used in this game' }) as ErrorEvent);
+            }
+            game.players.push({
+              name: typeof data.name === 'string' ? this.container.chat.filter(data.name) : data.name,
+              fingerprint,
+              user: user?.id ?? null
+            });
+            if (typeof data.spotifyToken === 'string') {
+              const error = await this.container.games.linkSpotifyToken(game, _.last(game.players), data.spotifyToken);
+              if (error != null) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors(error) as ErrorEvent);
+              }
+            }
+            const countdownCancelled = game.forceStartAt != null;
+            game.forceStartAt = null;
+            await game.save();
+            if (countdownCancelled) {
+              this.broadcast<ReadyServerToClientEvent>(game.id, EventType.READY, { game, lobby: this.container.games.getLobby(game) });
+            }
+            return socket.emit(EventType.JOIN, { token: await game.generateToken(_.last(game.players).id) } as JoinServerToClientEvent);
+          });
         } catch (err) {
           this.logger.error(err);
           if (err instanceof MongooseError.ValidationError) {
@@ -119,24 +228,55 @@ export default class WebsocketService extends Service {
         }
       });
 
+      // When the socket wants to spectate a game
+      socket.on(EventType.SPECTATE, async (data: SpectateClientToServerEvent) => {
+        try {
+          const game = await this.db.games.findOne().where('code').equals(data.code);
+          if (game == null) {
+            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid code' }) as ErrorEvent);
+          }
+          if (game.finished) {
+            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Game finished' }) as ErrorEvent);
+          }
+          const fingerprint = await this.getFingerprint(data.token);
+          if (fingerprint != null && this.container.games.isBanned(game, null, fingerprint)) {
+            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Banned from this game' }) as ErrorEvent);
+          }
+          return socket.emit(EventType.SPECTATE, { token: await game.generateSpectatorToken(fingerprint ?? this.container.crypto.generateRandomString(16)) } as SpectateServerToClientEvent);
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
       // When the socket wants to leave a game
       socket.on(EventType.LEAVE, async (data: LeaveClientToServerEvent) => {
         try {
           const tokenData = await this.container.tokens.decode<GameTokenData>(data.token, process.env.GAME_TOKEN_KEY);
-          const game = await this.db.games.findOne().where('code').equals(tokenData.code);
-          if (game == null) {
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
+          if (tokenData.role === 'spectator') {
+            return this.unregister(socket);
           }
-          const player = game.players.find(player => player.id === tokenData.playerId);
-          if (player.author) {
-            game.status = Status.FINISHED;
-          } else {
+          await this.container.games.runExclusive(tokenData.code, async () => {
+            const game = await this.db.games.findOne().where('code').equals(tokenData.code);
+            if (game == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
+            }
+            const player = game.players.find(player => player.id === tokenData.playerId);
+            if (player == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
+            }
+            this.unregister(socket);
+            if (game.players.length === 1) {
+              return await this.container.rounds.finish(game);
+            }
             _.remove(game.players, player);
             game.markModified('players');
-          }
-          await game.save();
-          this.unregister(socket);
-          return this.srv.in(game.id).emit(EventType.LEAVE, { game } as LeaveServerToClientEvent);
+            const author = player.author ? this.container.games.transferAuthorship(game) : null;
+            await game.save();
+            this.srv.in(game.id).emit(EventType.LEAVE, { game } as LeaveServerToClientEvent);
+            if (author != null) {
+              this.broadcast<AuthorServerToClientEvent>(game.id, EventType.AUTHOR, { game, author: { id: author.id, name: author.name } });
+            }
+          });
         } catch (err) {
           this.logger.error(err);
           if (err instanceof MongooseError.ValidationError) {
@@ -150,20 +290,30 @@ export default class WebsocketService extends Service {
       socket.on(EventType.CONNECT, async (data: ConnectClientToServerEvent) => {
         try {
           const tokenData = await this.container.tokens.decode<GameTokenData>(data.token, process.env.GAME_TOKEN_KEY);
-          const game = await this.db.games.findOne().where('code').equals(tokenData.code);
-          if (game == null) {
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
-          }
-          if (game.status === Status.FINISHED) {
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Game is finished' }) as ErrorEvent);
-          }
-          const player = game.players.find(player => player.id === tokenData.playerId);
-          if (player == null) {
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
-          }
-          this.unregister(socket);
-          this.register(game.id, socket);
-          return this.srv.in(game.id).emit(EventType.CONNECT, { game, player } as ConnectServerToClientEvent);
+          await this.container.games.runExclusive(tokenData.code, async () => {
+            const game = await this.db.games.findOne().where('code').equals(tokenData.code);
+            if (game == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
+            }
+            if (game.status === Status.FINISHED) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Game is finished' }) as ErrorEvent);
+            }
+            if (tokenData.role === 'spectator') {
+              this.unregister(socket);
+              this.register(game.id, socket, null);
+              return socket.emit(EventType.SYNC, { game, snapshot: this.container.rounds.getSnapshot(game), chat: this.container.chat.getHistory(game) } as SyncServerToClientEvent);
+            }
+            const player = game.players.find(player => player.id === tokenData.playerId);
+            if (player == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
+            }
+            this.unregister(socket);
+            this.register(game.id, socket, player.id);
+            player.connectedAt = new Date();
+            await game.save();
+            this.srv.in(game.id).emit(EventType.CONNECT, { game, player } as ConnectServerToClientEvent);
+            return socket.emit(EventType.SYNC, { game, snapshot: this.container.rounds.getSnapshot(game, player), chat: this.container.chat.getHistory(game) } as SyncServerToClientEvent);
+          });
         } catch (err) {
           this.logger.error(err);
           if (err instanceof MongooseError.ValidationError) {
@@ -177,57 +327,659 @@ export default class WebsocketService extends Service {
       socket.on(EventType.START, async (data: StartClientToServerEvent) => {
         try {
           const tokenData = await this.container.tokens.decode<GameTokenData>(data.token, process.env.GAME_TOKEN_KEY);
-          const game = await this.db.games.findOne().where('code').equals(tokenData.code);
-          if (game == null) {
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid code' }) as ErrorEvent);
+          if (tokenData.role === 'spectator') {
+            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Spectators can not start game' }) as ErrorEvent);
+          }
+          await this.container.games.runExclusive(tokenData.code, async () => {
+            const game = await this.db.games.findOne().where('code').equals(tokenData.code);
+            if (game == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid code' }) as ErrorEvent);
+            }
+            if (!game.starting) {
+              let error_description;
+              switch (game.status) {
+                case Status.TIMER_BETWEEN:
+                case Status.TIMER_CURRENT:
+                  error_description = 'Game in progress';
+                  break;
+                case Status.FINISHED:
+                  error_description = 'Game finished';
+                  break;
+                default:
+                  error_description: 'Game not accessible';
+                  break;
+              }
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description }) as ErrorEvent);
+            }
+            const player = game.players.find(player => player.id === tokenData.playerId);
+            if (player == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
+            }
+            if (!player.author) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can start game' }) as ErrorEvent);
+            }
+            if (!this.container.games.isReady(game)) {
+              if (game.forceStartAt == null) {
+                if (!data.force) {
+                  return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Players are not ready' }) as ErrorEvent);
+                }
+                game.forceStartAt = new Date(Date.now() + this.container.config.services.games.forceStartCountdown * 1000);
+                await game.save();
+                return this.broadcast<ReadyServerToClientEvent>(game.id, EventType.READY, { game, lobby: this.container.games.getLobby(game) });
+              }
+              if (game.forceStartAt.getTime() > Date.now()) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Force start countdown in progress' }) as ErrorEvent);
+              }
+            }
+            game.playlistId = data.playlistId;
+            game.shuffle = data.shuffle;
+            if (data.settings != null) {
+              this.container.games.updateSettings(game, data.settings);
+            }
+            if (game.settings.teamMode) {
+              this.container.teams.prepare(game);
+              if (!this.container.teams.isBalanced(game)) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'validation_failed', error_description: 'Teams are not balanced' }) as ErrorEvent);
+              }
+            }
+            await game.validate();
+            if (game.settings.guess === 'owner') {
+              if (typeof data.spotifyToken === 'string') {
+                const error = await this.container.games.linkSpotifyToken(game, player, data.spotifyToken);
+                if (error != null) {
+                  return socket.emit(EventType.ERROR, this.container.errors.formatErrors(error) as ErrorEvent);
+                }
+              }
+              if (game.players.length < 2) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'validation_failed', error_description: 'Social mode requires at least 2 players' }) as ErrorEvent);
+              }
+              if (game.players.some(player => player.user == null || !this.container.games.hasSpotifyToken(game, player))) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'validation_failed', error_description: 'All players must be linked to a Spotify account' }) as ErrorEvent);
+              }
+            }
+            const error = game.settings.guess === 'owner'
+              ? await this.container.games.buildSocialDeck(game)
+              : await this.container.games.buildDeck(game, data.spotifyToken);
+            if (error != null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors(error) as ErrorEvent);
+            }
+            await this.container.rounds.start(game);
+            return this.srv.in(game.id).emit(EventType.START, { game } as StartServerToClientEvent);
+          });
+        } catch (err) {
+          this.logger.error(err);
+          if (err instanceof MongooseError.ValidationError) {
+            return socket.emit(EventType.ERROR, this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)) as ErrorEvent);
           }
-          if (!game.starting) {
-            let error_description;
-            switch (game.status) {
-              case Status.TIMER_BETWEEN:
-              case Status.TIMER_CURRENT:
-                error_description = 'Game in progress';
-                break;
-              case Status.FINISHED:
-                error_description = 'Game finished';
-                break;
-              default:
-                error_description: 'Game not accessible';
-                break;
-            }
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description }) as ErrorEvent);
+          return socket.emit(EventType.ERROR, this.container.errors.formatServerError() as ErrorEvent);
+        }
+      });
+
+      // When the author wants to give the authorship to another player
+      socket.on(EventType.AUTHOR, async (data: AuthorClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (!player.author) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can give the authorship' }) as ErrorEvent);
+            }
+            const target = game.players.find(player => player.id === data.playerId);
+            if (target == null || target === player) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid player' }) as ErrorEvent);
+            }
+            this.container.games.transferAuthorship(game, target);
+            await game.save();
+            return this.broadcast<AuthorServerToClientEvent>(game.id, EventType.AUTHOR, { game, author: { id: target.id, name: target.name } });
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the author wants to kick a player
+      socket.on(EventType.KICK, async (data: KickClientToServerEvent) => {
+        await this.expelPlayer(socket, data, false);
+      });
+
+      // When the author wants to ban a player
+      socket.on(EventType.BAN, async (data: KickClientToServerEvent) => {
+        await this.expelPlayer(socket, data, true);
+      });
+
+      // When the socket wants to resynchronize its game state
+      socket.on(EventType.SYNC, async (data: SyncClientToServerEvent) => {
+        try {
+          const context = await this.resolveGame(socket, data.token);
+          if (context == null) {
+            return;
           }
+          const { game, tokenData } = context;
           const player = game.players.find(player => player.id === tokenData.playerId);
-          if (player == null) {
+          if (tokenData.role !== 'spectator' && player == null) {
             return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
           }
-          if (!player.author) {
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can start game' }) as ErrorEvent);
+          return socket.emit(EventType.SYNC, { game, snapshot: this.container.rounds.getSnapshot(game, player), chat: this.container.chat.getHistory(game) } as SyncServerToClientEvent);
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the author wants to update the game settings
+      socket.on(EventType.SETTINGS, async (data: SettingsClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (!player.author) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can update settings' }) as ErrorEvent);
+            }
+            if (!game.starting) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Settings are locked once the game is started' }) as ErrorEvent);
+            }
+            this.container.games.updateSettings(game, data.settings || {});
+            this.container.games.resetReady(game);
+            await game.save();
+            this.broadcast<SettingsServerToClientEvent>(game.id, EventType.SETTINGS, { game });
+            return this.broadcast<ReadyServerToClientEvent>(game.id, EventType.READY, { game, lobby: this.container.games.getLobby(game) });
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the author wants to update the teams
+      socket.on(EventType.TEAMS, async (data: TeamsClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (!player.author) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can update teams' }) as ErrorEvent);
+            }
+            if (!game.starting) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Teams are locked once the game is started' }) as ErrorEvent);
+            }
+            this.container.teams.setTeams(game, data.teams);
+            await game.save();
+            return this.broadcast<TeamsServerToClientEvent>(game.id, EventType.TEAMS, { game });
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When a player picks a team (or when the author assigns a player to a team)
+      socket.on(EventType.TEAM, async (data: TeamClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (!game.starting || !game.settings.teamMode) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Teams can only be picked in team mode before the game starts' }) as ErrorEvent);
+            }
+            const target = data.playerId != null ? game.players.find(player => player.id === data.playerId) : player;
+            if (target == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid player' }) as ErrorEvent);
+            }
+            if (target !== player && !player.author) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can assign other players' }) as ErrorEvent);
+            }
+            const team = this.container.teams.getTeam(game, data.teamId);
+            if (team == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid team' }) as ErrorEvent);
+            }
+            target.team = team.id;
+            await game.save();
+            return this.broadcast<TeamsServerToClientEvent>(game.id, EventType.TEAMS, { game });
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the socket submits an answer for the current round
+      socket.on(EventType.GUESS, async (data: GuessClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (game.status !== Status.TIMER_CURRENT) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'No round in progress' }) as ErrorEvent);
+            }
+            if (game.paused) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Game paused' }) as ErrorEvent);
+            }
+            const { answers } = this.container;
+            const track = game.deck[game.round];
+            if (game.settings.guess === 'year') {
+              if (player.year != null) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Already answered' }) as ErrorEvent);
+              }
+              if (!Number.isInteger(data.year) || data.year < 0 || data.year > 9999) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'invalid_request', error_description: 'Invalid year' }) as ErrorEvent);
+              }
+              const now = new Date();
+              const difference = answers.evaluateYear(data.year, track);
+              const found = difference != null && difference <= this.container.config.services.scores.yearRange;
+              player.year = data.year;
+              const points = found ? this.container.scores.awardYear(game, player, difference, now) : 0;
+              if (found) {
+                player.yearFoundAt = now;
+              }
+              await game.save();
+              if (found) {
+                this.broadcast<FoundServerToClientEvent>(game.id, EventType.FOUND, { player: { id: player.id, name: player.name }, title: false, artist: false, year: true, owner: false });
+              }
+              return socket.emit(EventType.GUESS, {
+                verdict: difference === 0 ? 'exact' : (found ? 'close' : 'wrong'),
+                title: false,
+                artist: false,
+                year: found,
+                owner: false,
+                points
+              } as GuessServerToClientEvent);
+            }
+            if (game.settings.guess === 'owner') {
+              if (player.pick != null) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Already answered' }) as ErrorEvent);
+              }
+              const target = game.players.find(other => other.id === data.playerId);
+              if (target == null || target === player) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'invalid_request', error_description: 'Invalid player' }) as ErrorEvent);
+              }
+              const now = new Date();
+              const candidates = (track.owners ?? []).filter(owner => owner !== player.id);
+              const found = candidates.includes(target.id);
+              player.pick = target.id;
+              const points = found ? this.container.scores.awardOwner(game, player, candidates.length, now) : 0;
+              if (found) {
+                player.ownerFoundAt = now;
+              }
+              await game.save();
+              if (found) {
+                this.broadcast<FoundServerToClientEvent>(game.id, EventType.FOUND, { player: { id: player.id, name: player.name }, title: false, artist: false, year: false, owner: true });
+              }
+              return socket.emit(EventType.GUESS, {
+                verdict: found ? 'exact' : 'wrong',
+                title: false,
+                artist: false,
+                year: false,
+                owner: found,
+                points
+              } as GuessServerToClientEvent);
+            }
+            let evaluation: AnswerEvaluation;
+            if (game.settings.answerMode === 'choice') {
+              if (player.choice != null) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Already answered' }) as ErrorEvent);
+              }
+              if (!Number.isInteger(data.choice) || data.choice < 0 || data.choice >= track.choices.length) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'invalid_request', error_description: 'Invalid choice' }) as ErrorEvent);
+              }
+              player.choice = data.choice;
+              evaluation = answers.evaluateChoice(data.choice, track);
+            } else {
+              if (typeof data.answer !== 'string' || data.answer.length > this.container.config.services.answers.maxLength) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'invalid_request', error_description: 'Invalid answer' }) as ErrorEvent);
+              }
+              player.answer = data.answer;
+              evaluation = answers.evaluate(data.answer, track);
+            }
+            const { guess } = game.settings;
+            if (guess === 'title') {
+              evaluation.artist = 'wrong';
+            } else if (guess === 'artist') {
+              evaluation.title = 'wrong';
+            }
+            const foundTitle = player.titleFoundAt == null && answers.isAccepted(evaluation.title);
+            const foundArtist = player.artistFoundAt == null && answers.isAccepted(evaluation.artist);
+            let points = 0;
+            if (foundTitle || foundArtist) {
+              const now = new Date();
+              if (foundTitle) {
+                player.titleFoundAt = now;
+              }
+              if (foundArtist) {
+                player.artistFoundAt = now;
+              }
+              points = this.container.scores.award(game, player, { title: foundTitle, artist: foundArtist }, now);
+            }
+            if (game.isModified()) {
+              await game.save();
+            }
+            if (foundTitle || foundArtist) {
+              this.broadcast<FoundServerToClientEvent>(game.id, EventType.FOUND, { player: { id: player.id, name: player.name }, title: foundTitle, artist: foundArtist, year: false, owner: false });
+            }
+            return socket.emit(EventType.GUESS, {
+              verdict: answers.bestVerdict(evaluation.title, evaluation.artist),
+              title: player.titleFoundAt != null,
+              artist: player.artistFoundAt != null,
+              year: false,
+              owner: false,
+              points
+            } as GuessServerToClientEvent);
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the player requests a personal hint
+      socket.on(EventType.HINT, async (data: HintClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (game.status !== Status.TIMER_CURRENT || game.paused) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'No round in progress' }) as ErrorEvent);
+            }
+            if (!this.container.hints.isAvailable(game)) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'No hint in this game mode' }) as ErrorEvent);
+            }
+            const hint = this.container.hints.givePersonalHint(game, player);
+            if (hint == null) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'No more hint' }) as ErrorEvent);
+            }
+            await game.save();
+            return socket.emit(EventType.HINT, { round: game.round, hint, personal: true } as HintServerToClientEvent);
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the player votes to skip the current track
+      socket.on(EventType.SKIP_VOTE, async (data: SkipVoteClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (game.status !== Status.TIMER_CURRENT || game.paused) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'No round in progress' }) as ErrorEvent);
+            }
+            if (data.force && !player.author) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can force a skip' }) as ErrorEvent);
+            }
+            player.skipVote = true;
+            await game.save();
+            const votes = this.container.rounds.getSkipVotes(game);
+            this.broadcast<SkipVoteServerToClientEvent>(game.id, EventType.SKIP_VOTE, { votes });
+            if (data.force || votes.votes >= votes.required) {
+              await this.container.rounds.skipRound(game);
+            }
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the author wants to pause the game
+      socket.on(EventType.PAUSE, async (data: PauseClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (!player.author) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can pause the game' }) as ErrorEvent);
+            }
+            if (!game.inProgress) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Game not in progress' }) as ErrorEvent);
+            }
+            if (game.paused) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Game already paused' }) as ErrorEvent);
+            }
+            return await this.container.rounds.pause(game);
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the author wants to resume the game
+      socket.on(EventType.RESUME, async (data: PauseClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (!player.author) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Only the author can resume the game' }) as ErrorEvent);
+            }
+            if (!game.inProgress || !game.paused) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Game not paused' }) as ErrorEvent);
+            }
+            return await this.container.rounds.resume(game);
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the player toggles the ready flag
+      socket.on(EventType.READY, async (data: ReadyClientToServerEvent) => {
+        try {
+          await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+            if (!game.starting) {
+              return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Game already started' }) as ErrorEvent);
+            }
+            if (typeof data.spotifyToken === 'string') {
+              const error = await this.container.games.linkSpotifyToken(game, player, data.spotifyToken);
+              if (error != null) {
+                return socket.emit(EventType.ERROR, this.container.errors.formatErrors(error) as ErrorEvent);
+              }
+            }
+            player.ready = typeof data.ready === 'boolean' ? data.ready : !player.ready;
+            await game.save();
+            return this.broadcast<ReadyServerToClientEvent>(game.id, EventType.READY, { game, lobby: this.container.games.getLobby(game) });
+          });
+        } catch (err) {
+          this.handleError(socket, err);
+        }
+      });
+
+      // When the socket sends a chat message
+      socket.on(EventType.CHAT, async (data: ChatClientToServerEvent) => {
+        try {
+          const context = await this.resolvePlayer(socket, data.token);
+          if (context == null) {
+            return;
           }
-          game.playlistId = data.playlistId;
-          game.shuffle = data.shuffle;
-          game.status = Status.TIMER_BETWEEN;
-          await game.save();
-          return this.srv.in(game.id).emit(EventType.START, { game } as StartServerToClientEvent);
+          const { game, player } = context;
+          if (!this.registeredSockets.some(registered => registered.socketId === socket.id && registered.room === game.id && registered.playerId === player.id)) {
+            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Not connected to this game' }) as ErrorEvent);
+          }
+          if (typeof data.message !== 'string' || data.message.trim().length === 0) {
+            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'invalid_request', error_description: 'Invalid message' }) as ErrorEvent);
+          }
+          if (this.container.chat.isRateLimited(game, player)) {
+            return socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Too many messages' }) as ErrorEvent);
+          }
+          const message = this.container.chat.post(game, player, data.message);
+          if (message.hidden) {
+            return socket.emit(EventType.CHAT, { message } as ChatServerToClientEvent);
+          }
+          return this.broadcast<ChatServerToClientEvent>(game.id, EventType.CHAT, { message });
         } catch (err) {
-          this.logger.error(err);
-          if (err instanceof MongooseError.ValidationError) {
-            return socket.emit(EventType.ERROR, this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)) as ErrorEvent);
+          this.handleError(socket, err);
+        }
+      });
+    });
+  }
+
+  /**
+   * Expels (kicks or bans) a player from a game.
+   * 
+   * Only the author can expel a player. The expelled player is removed from the game and the player sockets are forcibly removed from the game room.
+   * 
+   * @param socket Socket of the author
+   * @param data Kick event data
+   * @param banned True to ban the player, false to only kick the player
+   * @async
+   */
+  private async expelPlayer(socket: Socket, data: KickClientToServerEvent, banned: boolean): Promise<void> {
+    try {
+      await this.runPlayerAction(socket, data.token, async ({ game, player }) => {
+        if (!player.author) {
+          socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: `Only the author can ${banned ? 'ban' : 'kick'} players` }) as ErrorEvent);
+          return;
+        }
+        const target = game.players.find(player => player.id === data.playerId);
+        if (target == null || target === player) {
+          socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid player' }) as ErrorEvent);
+          return;
+        }
+        if (banned) {
+          this.container.games.ban(game, target);
+        } else {
+          _.remove(game.players, target);
+          game.markModified('players');
+        }
+        await game.save();
+        const reason = typeof data.reason === 'string' ? data.reason.substring(0, this.container.config.services.games.kickReasonLength) : null;
+        for (const registered of this.registeredSockets.filter(registered => registered.room === game.id && registered.playerId === target.id)) {
+          const targetSocket = this.srv.sockets.sockets.get(registered.socketId);
+          if (targetSocket != null) {
+            targetSocket.emit(EventType.KICKED, { banned, reason } as KickedServerToClientEvent);
+            this.unregister(targetSocket);
           }
-          return socket.emit(EventType.ERROR, this.container.errors.formatServerError() as ErrorEvent);
         }
+        this.broadcast<LeaveServerToClientEvent>(game.id, EventType.LEAVE, { game });
       });
+    } catch (err) {
+      this.handleError(socket, err);
+    }
+  }
+
+  /**
+   * Gets the fingerprint carried by a game token.
+   * 
+   * @param token Game token (of any game)
+   * @returns Fingerprint, or `undefined` if the token is missing or invalid
+   * @async
+   */
+  private async getFingerprint(token?: string): Promise<string> {
+    if (token == null) {
+      return undefined;
+    }
+    try {
+      return (await this.container.tokens.decode<GameTokenData>(token, process.env.GAME_TOKEN_KEY)).fingerprint;
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolves the game targeted by a game token (of a player or a spectator).
+   * 
+   * If the game does not exist, an error is emitted to the socket and `null` is returned.
+   * 
+   * @param socket Socket
+   * @param token Game token
+   * @returns Game and token data, or `null` if not found
+   * @async
+   */
+  private async resolveGame(socket: Socket, token: string): Promise<GameContext> {
+    const tokenData = await this.container.tokens.decode<GameTokenData>(token, process.env.GAME_TOKEN_KEY);
+    const game = await this.db.games.findOne().where('code').equals(tokenData.code);
+    if (game == null) {
+      socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
+      return null;
+    }
+    return { game, tokenData };
+  }
+
+  /**
+   * Resolves the game and the player targeted by a game token.
+   * 
+   * If the token is a spectator token, or if the game or the player does not exist, an error is emitted to the socket and `null` is returned.
+   * 
+   * @param socket Socket
+   * @param token Game token
+   * @returns Game and player, or `null` if not found
+   * @async
+   */
+  private async resolvePlayer(socket: Socket, token: string): Promise<PlayerContext> {
+    const context = await this.resolveGame(socket, token);
+    if (context == null) {
+      return null;
+    }
+    const { game, tokenData } = context;
+    if (tokenData.role === 'spectator') {
+      socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'access_denied', error_description: 'Spectators can not perform player actions' }) as ErrorEvent);
+      return null;
+    }
+    const player = game.players.find(player => player.id === tokenData.playerId);
+    if (player == null) {
+      socket.emit(EventType.ERROR, this.container.errors.formatErrors({ error: 'not_found', error_description: 'Invalid token' }) as ErrorEvent);
+      return null;
+    }
+    return { game, player };
+  }
+
+  /**
+   * Runs an action of the player targeted by a game token, exclusively on the game (see `GameService.runExclusive`).
+   * 
+   * The game and the player are resolved inside the exclusive operation, so the action never works on a stale copy of the game.
+   * If the game or the player does not exist, an error is emitted to the socket and the action is not run.
+   * 
+   * @param socket Socket
+   * @param token Game token
+   * @param action Action to run
+   * @async
+   */
+  private async runPlayerAction(socket: Socket, token: string, action: (context: PlayerContext) => Promise<unknown>): Promise<void> {
+    const tokenData = await this.container.tokens.decode<GameTokenData>(token, process.env.GAME_TOKEN_KEY);
+    await this.container.games.runExclusive(tokenData.code, async () => {
+      const context = await this.resolvePlayer(socket, token);
+      if (context != null) {
+        await action(context);
+      }
     });
   }
 
+  /**
+   * Schedules the authorship transfer of a game when a player disconnects.
+   * 
+   * If the player is the author and is still disconnected after the configured delay, the authorship is given to the longest-connected
+   * remaining player. Nothing happens if nobody else is connected.
+   * 
+   * @param room Game room
+   * @param playerId ID of the disconnected player
+   */
+  private scheduleAuthorshipTransfer(room: string, playerId: string): void {
+    this.container.scheduler.runTimer(`author-${room}-${playerId}`, async () => {
+      try {
+        const code = (await this.db.games.findById(room).select('code'))?.code;
+        if (code == null) {
+          return;
+        }
+        await this.container.games.runExclusive(code, async () => {
+          const game = await this.db.games.findById(room);
+          const player = game?.players.find(player => player.id === playerId);
+          if (game == null || game.finished || player == null || !player.author || this.isConnected(room, playerId)) {
+            return;
+          }
+          if (!game.players.some(other => other !== player && this.isConnected(room, other.id))) {
+            return;
+          }
+          const author = this.container.games.transferAuthorship(game);
+          await game.save();
+          this.broadcast<AuthorServerToClientEvent>(game.id, EventType.AUTHOR, { game, author: { id: author.id, name: author.name } });
+        });
+      } catch (err) {
+        this.logger.error('Could not transfer authorship of game', room, ':', err);
+      }
+    }, this.container.config.services.games.authorDisconnectDelay * 1000);
+  }
+
+  /**
+   * Emits an error to the socket.
+   * 
+   * Mongoose validation errors are translated, other errors are emitted as server errors.
+   * 
+   * @param socket Socket
+   * @param err Error to emit
+   */
+  private handleError(socket: Socket, err: unknown): void {
+    this.logger.error(err);
+    if (err instanceof MongooseError.ValidationError) {
+      socket.emit(EventType.ERROR, this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)) as ErrorEvent);
+    } else {
+      socket.emit(EventType.ERROR, this.container.errors.formatServerError() as ErrorEvent);
+    }
+  }
+
   /**
    * Registers (joins) a room.
    * 
    * @param room Room to join
    * @param socket Socket to join
+   * @param playerId ID of the player using the socket (`null` for spectators)
    */
-  private register(room: string, socket: Socket): void {
-    this.registeredSockets.push({ room, socketId: socket.id });
+  private register(room: string, socket: Socket, playerId: string): void {
+    this.registeredSockets.push({ room, socketId: socket.id, playerId });
     socket.join(room);
   }
 
@@ -239,6 +991,7 @@ export default class WebsocketService extends Service {
   private async unregister(socket: Socket): Promise<void> {
     const registered = this.registeredSockets.find(registered => registered.socketId === socket.id);
     if (registered != null) {
+      _.pull(this.registeredSockets, registered);
       socket.leave(registered.room);
     }
   }
@@ -247,15 +1000,36 @@ export default class WebsocketService extends Service {
 /**
  * Websocket event types.
  */
-enum EventType {
-  ERROR = 'error', TEST = 'test', JOIN = 'join', LEAVE = 'leave', CONNECT = 'co', START = 'start'
+export enum EventType {
+  ERROR = 'error', TEST = 'test', JOIN = 'join', LEAVE = 'leave', CONNECT = 'co', START = 'start',
+  ROUND_START = 'roundStart', ROUND_END = 'roundEnd', FINISH = 'finish', GUESS = 'guess', FOUND = 'found',
+  SCOREBOARD = 'scoreboard', SETTINGS = 'settings', SYNC = 'sync',
+  AUTHOR = 'author', KICK = 'kick', BAN = 'ban', KICKED = 'kicked',
+  SPECTATE = 'spectate', TEAMS = 'teams', TEAM = 'team', ACHIEVEMENT = 'achievement', CHAT = 'chat', READY = 'ready',
+  PAUSE = 'pause', RESUME = 'resume', SKIP_VOTE = 'skipVote', HINT = 'hint'
+}
+
+/**
+ * Game context, resolved from a game token.
+ */
+interface GameContext {
+  game: GameInstance;
+  tokenData: GameTokenData;
+}
+
+/**
+ * Player context, resolved from a game token.
+ */
+interface PlayerContext {
+  game: GameInstance;
+  player: PlayerAttributes;
 }
 
 /**
  * Base websocket event.
  */
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
-interface Event {}
+export interface Event {}
 
 /**
  * Error event.
@@ -278,10 +1052,16 @@ interface TestServerToClientEvent extends Event {
 
 /**
  * Join event (client to server).
+ * 
+ * The token is the last game token of the player (if any), used to retrieve the player fingerprint.
+ * The access token is optional, it is used to link the player to an user account.
  */
 interface JoinClientToServerEvent extends Event {
   code: string;
   name: string;
+  token?: string;
+  accessToken?: string;
+  spotifyToken?: string;
 }
 
 /**
@@ -291,7 +1071,22 @@ interface JoinServerToClientEvent extends Event {
   token: string;
 }
 
+/**
+ * Spectate event (client to server).
+ * 
+ * The token is the last game token of the spectator (if any), used to retrieve the fingerprint.
+ */
+interface SpectateClientToServerEvent extends Event {
+  code: string;
+  token?: string;
+}
 
+/**
+ * Spectate event (server to client).
+ */
+interface SpectateServerToClientEvent extends Event {
+  token: string;
+}
 
 /**
  * Leave event (client to server).
@@ -324,11 +1119,16 @@ interface ConnectServerToClientEvent extends Event {
 
 /**
  * Start event (client to server).
+ * 
+ * If some players are not ready, the `force` flag starts the force-start countdown.
  */
 interface StartClientToServerEvent extends Event {
   token: string;
+  spotifyToken: string;
   playlistId: string;
   shuffle: boolean;
+  settings?: Partial<SettingsAttributes>;
+  force?: boolean;
 }
 
 /**
@@ -337,3 +1137,274 @@ interface StartClientToServerEvent extends Event {
 interface StartServerToClientEvent extends Event {
   game: GameInstance;
 }
+
+/**
+ * Round start event (server to broadcast).
+ * 
+ * The track is not revealed, only its Spotify identifiers and its preview are sent to allow clients to play it. Clients play the preview
+ * from its start offset (in seconds), or play the track with the Spotify player if it has no preview.
+ */
+export interface RoundStartServerToClientEvent extends Event {
+  round: number;
+  total: number;
+  endsAt: Date;
+  track: Pick<TrackAttributes, 'spotifyId' | 'uri' | 'previewUrl' | 'previewOffset'>;
+  choices?: ChoiceAttributes[];
+}
+
+/**
+ * Round end event (server to broadcast).
+ */
+export interface RoundEndServerToClientEvent extends Event {
+  round: number;
+  total: number;
+  track: TrackAttributes;
+  skipped: boolean;
+}
+
+/**
+ * Finish event (server to broadcast).
+ */
+export interface FinishServerToClientEvent extends Event {
+  game: GameInstance;
+  scoreboard: ScoreboardEntry[];
+  teams?: TeamScoreboardEntry[];
+}
+
+/**
+ * Guess event (client to server).
+ */
+interface GuessClientToServerEvent extends Event {
+  token: string;
+  answer?: string;
+  choice?: number;
+  year?: number;
+  playerId?: string;
+}
+
+/**
+ * Guess event (server to client).
+ * 
+ * `title`, `artist`, `year` and `owner` indicate if the player has found them during the current round, `points` are the points awarded by this guess.
+ */
+interface GuessServerToClientEvent extends Event {
+  verdict: Verdict;
+  title: boolean;
+  artist: boolean;
+  year: boolean;
+  owner: boolean;
+  points: number;
+}
+
+/**
+ * Found event (server to broadcast).
+ * 
+ * The answer is not revealed, only the found parts.
+ */
+interface FoundServerToClientEvent extends Event {
+  player: Pick<PlayerAttributes, 'id' | 'name'>;
+  title: boolean;
+  artist: boolean;
+  year: boolean;
+  owner: boolean;
+}
+
+/**
+ * Scoreboard event (server to broadcast).
+ */
+export interface ScoreboardServerToClientEvent extends Event {
+  round: number;
+  scoreboard: ScoreboardEntry[];
+  teams?: TeamScoreboardEntry[];
+}
+
+/**
+ * Settings event (client to server).
+ */
+interface SettingsClientToServerEvent extends Event {
+  token: string;
+  settings: Partial<SettingsAttributes>;
+}
+
+/**
+ * Settings event (server to broadcast).
+ */
+interface SettingsServerToClientEvent extends Event {
+  game: GameInstance;
+}
+
+/**
+ * Sync event (client to server).
+ */
+interface SyncClientToServerEvent extends Event {
+  token: string;
+}
+
+/**
+ * Sync event (server to client).
+ */
+interface SyncServerToClientEvent extends Event {
+  game: GameInstance;
+  snapshot: StateSnapshot;
+  chat: ChatMessage[];
+}
+
+/**
+ * Author event (client to server).
+ */
+interface AuthorClientToServerEvent extends Event {
+  token: string;
+  playerId: string;
+}
+
+/**
+ * Author event (server to broadcast).
+ */
+interface AuthorServerToClientEvent extends Event {
+  game: GameInstance;
+  author: Pick<PlayerAttributes, 'id' | 'name'>;
+}
+
+/**
+ * Kick and ban events (client to server).
+ */
+interface KickClientToServerEvent extends Event {
+  token: string;
+  playerId: string;
+  reason?: string;
+}
+
+/**
+ * Kicked event (server to client).
+ */
+interface KickedServerToClientEvent extends Event {
+  banned: boolean;
+  reason: string;
+}
+
+/**
+ * Teams event (client to server).
+ */
+interface TeamsClientToServerEvent extends Event {
+  token: string;
+  teams: Pick<TeamAttributes, 'name' | 'color'>[];
+}
+
+/**
+ * Teams event (server to broadcast).
+ */
+interface TeamsServerToClientEvent extends Event {
+  game: GameInstance;
+}
+
+/**
+ * Team event (client to server).
+ * 
+ * The player ID is only used by the author to assign another player.
+ */
+interface TeamClientToServerEvent extends Event {
+  token: string;
+  teamId: string;
+  playerId?: string;
+}
+
+/**
+ * Achievement event (server to player).
+ */
+export interface AchievementServerToClientEvent extends Event {
+  achievements: Achievement[];
+}
+
+/**
+ * Chat event (client to server).
+ */
+interface ChatClientToServerEvent extends Event {
+  token: string;
+  message: string;
+}
+
+/**
+ * Chat event (server to broadcast).
+ * 
+ * Hidden messages are only sent to their sender.
+ */
+interface ChatServerToClientEvent extends Event {
+  message: ChatMessage;
+}
+
+/**
+ * Ready event (client to server).
+ * 
+ * The ready flag is toggled if no value is given.
+ */
+interface ReadyClientToServerEvent extends Event {
+  token: string;
+  ready?: boolean;
+  spotifyToken?: string;
+}
+
+/**
+ * Ready event (server to broadcast).
+ */
+interface ReadyServerToClientEvent extends Event {
+  game: GameInstance;
+  lobby: LobbyState;
+}
+
+/**
+ * Pause and resume events (client to server).
+ */
+interface PauseClientToServerEvent extends Event {
+  token: string;
+}
+
+/**
+ * Pause event (server to broadcast).
+ * 
+ * The remaining time of the current phase is in milliseconds.
+ */
+export interface PauseServerToClientEvent extends Event {
+  game: GameInstance;
+  remainingTime: number;
+}
+
+/**
+ * Resume event (server to broadcast).
+ */
+export interface ResumeServerToClientEvent extends Event {
+  game: GameInstance;
+  endsAt: Date;
+}
+
+/**
+ * Skip vote event (client to server).
+ * 
+ * The `force` flag is only used by the author to skip the track without waiting for votes.
+ */
+interface SkipVoteClientToServerEvent extends Event {
+  token: string;
+  force?: boolean;
+}
+
+/**
+ * Skip vote event (server to broadcast).
+ */
+interface SkipVoteServerToClientEvent extends Event {
+  votes: SkipVotes;
+}
+
+/**
+ * Hint event (client to server).
+ */
+interface HintClientToServerEvent extends Event {
+  token: string;
+}
+
+/**
+ * Hint event (server to broadcast, or to player for personal hints).
+ */
+export interface HintServerToClientEvent extends Event {
+  round: number;
+  hint: Hint;
+  personal: boolean;
+}